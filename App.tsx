@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Markdown from 'react-markdown';
 import { 
@@ -26,6 +26,7 @@ import {
   doc, 
   getDoc,
   deleteDoc,
+  deleteField,
   orderBy,
   limit,
   Timestamp
@@ -34,19 +35,49 @@ import CameraFeed, { CameraHandle } from './components/CameraFeed';
 import LiveAudio, { LiveAudioHandle } from './components/LiveAudio';
 import Timeline from './components/Timeline';
 import Onboarding from './components/Onboarding';
+import TimelapseExporter from './components/TimelapseExporter';
+import ReportsPanel from './components/ReportsPanel';
+import LabelAccuracyPanel from './components/LabelAccuracyPanel';
+import LiveRecordingsPanel from './components/LiveRecordingsPanel';
+import { HeatmapDiagnostic } from './components/HeatmapDiagnostic';
+import SnapshotViewer from './components/SnapshotViewer';
 import { HomeTab, ScanTab, PlantsTab, ScheduleTab, LibraryTab } from './components/NewUI';
 import confetti from 'canvas-confetti';
-import { CapturedImage, MonitorSettings, ChatMessage, UserProfile } from './types';
+import { CapturedImage, MonitorSettings, ChatMessage, UserProfile, CaptureSchedule, CareReminder, CareAction, Plant, BoundingBox, Conversation, GrowthReport, AnomalyAlert, HumanLabel } from './types';
 import { 
-  analyzeImage, 
-  sendMessage, 
+  analyzePlantSnapshot, 
+  diagnoseSnapshot, 
+  streamMessage, 
   generateSpeech, 
   getFastResponse, 
-  generateGrowthReport,
   decodeAudio,
   decodeAudioData,
-  generateImage
+  generateImage,
+  configureAIProvider,
+  getAIProvider
 } from './services/geminiService';
+import { AIProviderId, DEFAULT_OPENAI_CONFIG, LiveToolHandlers } from './services/aiProvider';
+import { getOpenAIApiKey, setOpenAIApiKey } from './services/openAIProvider';
+import { resolveSchedules, getNextFire, getUpcomingFireTimes, getTimerDelay } from './services/scheduler';
+import { CARE_TYPES, createReminder, completeReminder, snoozeReminder, createCareAction, createLoggedCareAction } from './services/careReminders';
+import { createPlant, findPlant, filterImagesByPlant, groupImagesByPlant, isUnassigned, UNASSIGNED_PLANT_ID } from './services/plants';
+import { analysisToSnapshotFields, hydrateLegacyAnalysis } from './services/analysisParser';
+import { deleteSnapshotImage, migrateInlineSnapshot, loadSnapshotDataUrl } from './services/snapshotStorage';
+import { enqueueCapture, cancelCapture, drainQueue, subscribeQueueStatus, initQueueStatus } from './services/captureQueue';
+import { alignSequence } from './services/alignment';
+import { measureImage, needsGrowthMetrics } from './services/growthMetrics';
+import { classifySnapshot } from './services/localClassifier';
+import { createGrowthReport } from './services/reports';
+import { findDueDigests, createWeeklyDigest, digestId, digestToSpeech, getWeekStart, DIGEST_PERIOD_MS } from './services/digests';
+import { scanForAnomalies } from './services/anomalies';
+import { reanalyzeIfLowConfidence } from './services/confidence';
+import { getPlantHistory } from './services/liveTools';
+import { buildLiveContext } from './services/liveContext';
+import { LiveSessionArchive } from './services/liveRecorder';
+import { saveLiveRecording } from './services/liveRecordings';
+import { createConversation, conversationUpdateForMessage, generateConversationTitle } from './services/conversations';
+import { resizeImage } from './services/imageUtils';
+import { ChatAttachment, attachmentMessageFields, resolveAttachmentImages } from './services/chatAttachments';
 import { 
   Leaf, 
   Play, 
@@ -85,16 +116,37 @@ import {
   Lightbulb,
   LogOut,
   X,
-  BookOpen
+  BookOpen,
+  Radio
 } from 'lucide-react';
 
+const CHAT_IMAGE_MAX_SIZE = 1024; // Generated images are downscaled before being stored with the conversation
+const LIVE_TURN_IDLE_MS = 2000; // A Live transcript turn is saved once it has been quiet this long
+
+// Date inputs read and write local dates, so their value must not come from UTC
+const toDateInput = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
 const App: React.FC = () => {
   const [user, setUser] = useState<any>(null);
   const [isAuthReady, setIsAuthReady] = useState(false);
   const [active, setActive] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'STABLE' | 'SYNCING' | 'ERROR'>('STABLE');
+  const [queueDepth, setQueueDepth] = useState(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isCameraEnabled, setIsCameraEnabled] = useState(true);
-  const [images, setImages] = useState<CapturedImage[]>([]);
+  const [storedImages, setStoredImages] = useState<CapturedImage[]>([]);
+  const [queuedImages, setQueuedImages] = useState<CapturedImage[]>([]); // Captures still waiting in the offline queue
+  // Queued captures show in the timeline right away instead of only once their upload lands
+  const images = useMemo(() => {
+    const stored = new Set(storedImages.map(img => img.id));
+    const queued = queuedImages.filter(img => img.uid === user?.uid && !stored.has(img.id));
+    return queued.length ? [...storedImages, ...queued].sort((a, b) => a.timestamp - b.timestamp) : storedImages;
+  }, [storedImages, queuedImages, user]);
+  const [careActions, setCareActions] = useState<CareAction[]>([]);
+  const [plants, setPlants] = useState<Plant[]>([]);
   const [settings, setSettings] = useState<MonitorSettings>({
     intervalHours: 1.5,
     autoAnalyze: false,
@@ -108,7 +160,7 @@ const App: React.FC = () => {
     plantType: '',
     hasCompletedOnboarding: false
   });
-  const [activeTab, setActiveTab] = useState<'home' | 'plants' | 'scan' | 'schedule'>('home');
+  const [activeTab, setActiveTab] = useState<'home' | 'library' | 'plants' | 'scan' | 'schedule'>('home');
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [selectedImage, setSelectedImage] = useState<CapturedImage | null>(null);
@@ -117,23 +169,56 @@ const App: React.FC = () => {
   const [stealthMode, setStealthMode] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
+  const [chatAttachments, setChatAttachments] = useState<ChatAttachment[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
   const [location, setLocation] = useState<{lat: number, lng: number} | undefined>(undefined);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [flash, setFlash] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showTimelapseExport, setShowTimelapseExport] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+  const [showLabelAccuracy, setShowLabelAccuracy] = useState(false);
+  const [showLiveRecordings, setShowLiveRecordings] = useState(false);
+  const [diagnosisImageId, setDiagnosisImageId] = useState<string | null>(null);
+  const [diagnosingId, setDiagnosingId] = useState<string | null>(null);
+  const [reports, setReports] = useState<GrowthReport[]>([]);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [reportsLoaded, setReportsLoaded] = useState(false);
+  const digestAttemptsRef = useRef(new Set<string>()); // Digest ids tried this session, so failures are not retried in a loop
+  const [alerts, setAlerts] = useState<AnomalyAlert[]>([]);
+  const [alertsLoaded, setAlertsLoaded] = useState(false);
+  const alertAttemptsRef = useRef(new Set<string>()); // Alert ids written (or tried) this session
+  const [alignProgress, setAlignProgress] = useState<number | null>(null);
+  const [measureProgress, setMeasureProgress] = useState<number | null>(null);
+  const [scheduleAnchor, setScheduleAnchor] = useState<number | null>(null);
+  const [nextCaptureAt, setNextCaptureAt] = useState<number | null>(null);
 
   // Chat Options
   const [useThinking, setUseThinking] = useState(false);
   const [useSearch, setUseSearch] = useState(false);
   const [useMaps, setUseMaps] = useState(false);
+  const [aiCapabilities, setAiCapabilities] = useState(getAIProvider().capabilities);
+  const [openAIApiKey, setOpenAIApiKeyInput] = useState(getOpenAIApiKey);
 
   const cameraRef = useRef<CameraHandle>(null);
   const liveAudioRef = useRef<LiveAudioHandle>(null);
-  const intervalRef = useRef<any>(null);
+  const scheduleRef = useRef<any>(null);
+  const captureRef = useRef<() => Promise<void>>(async () => {});
+  const migratingRef = useRef<Set<string>>(new Set());
   const playbackRef = useRef<any>(null);
+  const conversationRef = useRef<Conversation | null>(null); // Latest local copy of the active conversation
+  const resumedRef = useRef(false);
+  const activePlantIdRef = useRef<string | undefined>(undefined);
+  activePlantIdRef.current = settings.activePlantId;
+  const liveTurnRef = useRef<{ message: ChatMessage; timer: ReturnType<typeof setTimeout> } | null>(null); // Live transcript turn not yet saved
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const chatMessagesRef = useRef<ChatMessage[]>([]);
+  chatMessagesRef.current = chatMessages;
   const timerRef = useRef<any>(null);
 
   useEffect(() => {
@@ -187,11 +272,23 @@ const App: React.FC = () => {
         limit(50)
       );
       const unsubscribe = onSnapshot(q, (snapshot) => {
-        const loadedImages = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as CapturedImage[];
-        setImages(loadedImages.reverse());
+        // Document id wins over the stored id field so deletes and updates target the right document
+        const loadedImages = snapshot.docs.map(doc => hydrateLegacyAnalysis({
+          ...doc.data(),
+          id: doc.id
+        } as CapturedImage));
+        setStoredImages(loadedImages.reverse());
+
+        // Lazily move legacy inline images into storage, one at a time
+        const legacy = loadedImages.filter(img => img.dataUrl && !img.storagePath && !migratingRef.current.has(img.id));
+        legacy.forEach(img => migratingRef.current.add(img.id));
+        legacy.reduce((chain, img) => chain
+          .then(() => migrateInlineSnapshot(user.uid, img))
+          .then(() => undefined)
+          .catch(e => {
+            console.warn("Snapshot migration failed:", e);
+            migratingRef.current.delete(img.id);
+          }), Promise.resolve());
       }, (error) => {
         console.error("Firestore Error: ", error);
         setGlobalError("Failed to sync snapshots.");
@@ -200,6 +297,179 @@ const App: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (user) {
+      const q = query(
+        collection(db, 'users', user.uid, 'plants'),
+        orderBy('createdAt', 'asc')
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        setPlants(snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as Plant));
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to sync plants.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      const q = query(
+        collection(db, 'users', user.uid, 'careActions'),
+        orderBy('timestamp', 'desc'),
+        limit(20)
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        setCareActions(snapshot.docs.map(d => d.data() as CareAction));
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to sync care history.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      const q = query(
+        collection(db, 'users', user.uid, 'conversations'),
+        orderBy('updatedAt', 'desc'),
+        limit(50)
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        const loaded = snapshot.docs.map(d => d.data() as Conversation);
+        setConversations(loaded);
+        // Resume the latest conversation, preferring the active plant, once per session
+        if (!resumedRef.current) {
+          resumedRef.current = true;
+          const latest = loaded.find(c => c.plantId === activePlantIdRef.current) || loaded[0];
+          if (latest && !conversationRef.current) {
+            conversationRef.current = latest;
+            setActiveConversationId(latest.id);
+          }
+        }
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to sync conversations.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      const q = query(
+        collection(db, 'users', user.uid, 'reports'),
+        orderBy('createdAt', 'desc'),
+        limit(50)
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        setReports(snapshot.docs.map(d => d.data() as GrowthReport));
+        setReportsLoaded(true);
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to sync reports.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      const q = query(
+        collection(db, 'users', user.uid, 'alerts'),
+        orderBy('createdAt', 'desc'),
+        limit(50)
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        setAlerts(snapshot.docs.map(d => d.data() as AnomalyAlert));
+        setAlertsLoaded(true);
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to sync alerts.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user]);
+
+  // Anomaly detection: each new analysis is compared with the plant's previous snapshot
+  useEffect(() => {
+    if (user && !alertsLoaded) return;
+    const known = new Set(alerts.map(a => a.id));
+    const found = scanForAnomalies(images, plants, user?.uid || 'anonymous', settings.minConfidenceThreshold)
+      .filter(a => !known.has(a.id) && !alertAttemptsRef.current.has(a.id));
+    if (found.length === 0) return;
+    found.forEach(a => alertAttemptsRef.current.add(a.id));
+
+    if (!user) {
+      setAlerts(prev => [...found, ...prev]);
+      return;
+    }
+    (async () => {
+      try {
+        for (const alert of found) {
+          // Never overwrite: the alert may already be acknowledged on another device
+          const ref = doc(db, 'users', user.uid, 'alerts', alert.id);
+          if ((await getDoc(ref)).exists()) continue;
+          await setDoc(ref, alert);
+        }
+      } catch (e) {
+        console.error("Anomaly alert failed:", e);
+      }
+    })();
+  }, [user, alertsLoaded, alerts, images, plants, settings.minConfidenceThreshold]);
+
+  // Weekly digests: once a week completes, each plant gets a digest of it the next time the app runs
+  const currentWeekStart = getWeekStart(currentTime.getTime());
+  useEffect(() => {
+    if (!user || !reportsLoaded || settings.weeklyDigest === false) return;
+    const due = findDueDigests(plants, reports, currentWeekStart).filter(d => !digestAttemptsRef.current.has(digestId(d.plant.id, d.weekStart)));
+    if (due.length === 0) return;
+    due.forEach(d => digestAttemptsRef.current.add(digestId(d.plant.id, d.weekStart)));
+
+    (async () => {
+      const weekStart = due[0].weekStart;
+      const range = [where('timestamp', '>=', weekStart), where('timestamp', '<', weekStart + DIGEST_PERIOD_MS)];
+      try {
+        const [snapshotDocs, careDocs] = await Promise.all([
+          getDocs(query(collection(db, 'users', user.uid, 'snapshots'), ...range)),
+          getDocs(query(collection(db, 'users', user.uid, 'careActions'), ...range))
+        ]);
+        const weekImages = snapshotDocs.docs.map(d => hydrateLegacyAnalysis({ ...d.data(), id: d.id } as CapturedImage));
+        const weekCareActions = careDocs.docs.map(d => d.data() as CareAction);
+        for (const { plant } of due) {
+          // Another device may have compiled it already
+          const id = digestId(plant.id, weekStart);
+          if ((await getDoc(doc(db, 'users', user.uid, 'reports', id))).exists()) continue;
+          const digest = await createWeeklyDigest(user.uid, plant, weekImages, weekCareActions, weekStart);
+          await setDoc(doc(db, 'users', user.uid, 'reports', id), digest);
+        }
+      } catch (e) {
+        console.error("Weekly digest failed:", e);
+      }
+    })();
+  }, [user, reportsLoaded, plants, reports, settings.weeklyDigest, currentWeekStart]);
+
+  useEffect(() => {
+    if (user && activeConversationId) {
+      const q = query(
+        collection(db, 'users', user.uid, 'conversations', activeConversationId, 'messages'),
+        orderBy('timestamp', 'asc')
+      );
+      const unsubscribe = onSnapshot(q, (snapshot) => {
+        setChatMessages(snapshot.docs.map(d => {
+          const { uid, ...message } = d.data();
+          return message as ChatMessage;
+        }));
+      }, (error) => {
+        console.error("Firestore Error: ", error);
+        setGlobalError("Failed to load conversation.");
+      });
+      return () => unsubscribe();
+    }
+  }, [user, activeConversationId]);
+
   useEffect(() => {
     if (user && isAuthReady) {
       setDoc(doc(db, 'users', user.uid), {
@@ -211,6 +481,48 @@ const App: React.FC = () => {
     }
   }, [settings, user, isAuthReady]);
 
+  useEffect(() => {
+    configureAIProvider(settings);
+    const { capabilities } = getAIProvider();
+    setAiCapabilities(capabilities);
+    if (!capabilities.thinking) setUseThinking(false);
+    if (!capabilities.search) setUseSearch(false);
+    if (!capabilities.maps) setUseMaps(false);
+  }, [settings.aiProvider, settings.openAICompatible?.baseUrl, settings.openAICompatible?.model]);
+
+  // Offline Capture Queue: drains on login, when connectivity returns and periodically for backoff retries
+  useEffect(() => {
+    const unsubscribe = subscribeQueueStatus(status => {
+      setQueueDepth(status.depth);
+      setQueuedImages(status.pending);
+      if (status.draining) setConnectionStatus('SYNCING');
+      else if (status.depth > 0) setConnectionStatus(status.lastError ? 'ERROR' : 'SYNCING');
+      else setConnectionStatus('STABLE');
+    });
+    initQueueStatus();
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    // Offline this only runs on-device analysis; uploads wait for the network
+    drainQueue(user.uid);
+    if (!isOnline) return;
+    const retry = setInterval(() => drainQueue(user.uid), 30000);
+    return () => clearInterval(retry);
+  }, [user, isOnline]);
+
   useEffect(() => {
     timerRef.current = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(timerRef.current);
@@ -218,29 +530,70 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (active) {
-      const intervalMs = settings.intervalHours * 60 * 60 * 1000;
-      if (images.length === 0) setTimeout(captureAndProcess, 1000);
-      intervalRef.current = setInterval(captureAndProcess, intervalMs);
+      setScheduleAnchor(prev => prev ?? Date.now());
+      if (images.length === 0) setTimeout(() => captureRef.current(), 1000);
     } else {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+      setScheduleAnchor(null);
+      setNextCaptureAt(null);
     }
-    return () => clearInterval(intervalRef.current);
-  }, [active, settings.intervalHours]);
+  }, [active]);
+
+  // Scheduling Engine: arms a single timer for the next fire time across all schedules
+  useEffect(() => {
+    if (!active || scheduleAnchor === null) return;
+    let cancelled = false;
+
+    const arm = () => {
+      const schedules = resolveSchedules(settings.captureSchedules, settings.intervalHours);
+      const next = getNextFire(schedules, Date.now(), scheduleAnchor);
+      setNextCaptureAt(next ? next.time : null);
+      if (!next) return;
+
+      scheduleRef.current = setTimeout(async () => {
+        // Long delays are capped, so the timer may wake up before the fire time
+        if (Date.now() >= next.time) {
+          try {
+            await captureRef.current();
+          } catch (e) {
+            console.error("Scheduled capture failed:", e);
+          }
+        }
+        if (!cancelled) arm();
+      }, getTimerDelay(next.time));
+    };
+
+    arm();
+    return () => {
+      cancelled = true;
+      clearTimeout(scheduleRef.current);
+    };
+  }, [active, scheduleAnchor, settings.intervalHours, settings.captureSchedules]);
+
+  // Playback steps through the selected snapshot's plant, whose frames share one alignment reference
+  const diagnosisImage = diagnosisImageId ? images.find(img => img.id === diagnosisImageId) : undefined;
+  // Only read when Live connects, so it is built when Live mode opens rather than on every render
+  const liveContext = useMemo(
+    () => liveMode ? buildLiveContext(images, findPlant(plants, settings.activePlantId), settings.careReminders, alerts, settings.plantType) : undefined,
+    [liveMode, images, plants, settings.activePlantId, settings.careReminders, alerts, settings.plantType]
+  );
+
+  const playbackPlantId = selectedImage ? (isUnassigned(selectedImage, plants) ? UNASSIGNED_PLANT_ID : selectedImage.plantId) : undefined;
+  const playbackSequence = useMemo(() => filterImagesByPlant(images, playbackPlantId, plants), [images, playbackPlantId, plants]);
 
   useEffect(() => {
-    if (playbackMode && images.length > 0 && settings.autoAdvance) {
-      let idx = selectedImage ? images.findIndex(img => img.id === selectedImage.id) : 0;
+    if (playbackMode && playbackSequence.length > 0 && settings.autoAdvance) {
+      let idx = selectedImage ? playbackSequence.findIndex(img => img.id === selectedImage.id) : 0;
       if (idx === -1) idx = 0;
       const interval = 1000 / settings.playbackFps;
       playbackRef.current = setInterval(() => {
-        setSelectedImage(images[idx]);
-        idx = (idx + 1) % images.length;
+        setSelectedImage(playbackSequence[idx]);
+        idx = (idx + 1) % playbackSequence.length;
       }, interval);
     } else {
       clearInterval(playbackRef.current);
     }
     return () => clearInterval(playbackRef.current);
-  }, [playbackMode, images, settings.playbackFps, settings.autoAdvance]);
+  }, [playbackMode, playbackSequence, settings.playbackFps, settings.autoAdvance]);
 
   const captureAndProcess = async () => {
     if (cameraRef.current) {
@@ -251,15 +604,20 @@ const App: React.FC = () => {
     }
   };
 
+  captureRef.current = captureAndProcess;
+
   const [showPurgeConfirm, setShowPurgeConfirm] = useState(false);
 
   const deleteSnapshot = async (id: string) => {
     if (!user) {
-      setImages(prev => prev.filter(img => img.id !== id));
+      setStoredImages(prev => prev.filter(img => img.id !== id));
       return;
     }
     try {
+      const img = images.find(i => i.id === id);
+      await cancelCapture(id);
       await deleteDoc(doc(db, 'users', user.uid, 'snapshots', id));
+      if (img) await deleteSnapshotImage(img);
       // onSnapshot will update the UI
     } catch (e) {
       console.error("Delete failed:", e);
@@ -269,7 +627,7 @@ const App: React.FC = () => {
 
   const purgeSnapshots = async () => {
     if (!user) {
-      setImages([]);
+      setStoredImages([]);
       return;
     }
     
@@ -283,9 +641,12 @@ const App: React.FC = () => {
     try {
       const q = query(collection(db, 'users', user.uid, 'snapshots'));
       const snapshot = await getDocs(q);
-      const deletePromises = snapshot.docs.map(d => deleteDoc(doc(db, 'users', user.uid, 'snapshots', d.id)));
+      const deletePromises = snapshot.docs.map(async d => {
+        await deleteDoc(doc(db, 'users', user.uid, 'snapshots', d.id));
+        await deleteSnapshotImage({ ...d.data(), id: d.id } as CapturedImage);
+      });
       await Promise.all(deletePromises);
-      setImages([]);
+      setStoredImages([]);
       confetti({
         particleCount: 100,
         spread: 70,
@@ -325,61 +686,241 @@ const App: React.FC = () => {
       console.warn("Geolocation failed:", e);
     }
 
+    const activePlant = findPlant(plants, settings.activePlantId);
     const newImage: CapturedImage = { 
       id: Date.now().toString(), 
       uid: user?.uid || 'anonymous',
       timestamp: Date.now(), 
       dataUrl,
-      location: locationData
+      location: locationData,
+      ...(activePlant ? { plantId: activePlant.id } : {})
     };
     
     if (user) {
+      // Offline-first: the capture is persisted locally, then uploaded and analysed by the queue
       try {
-        await addDoc(collection(db, 'users', user.uid, 'snapshots'), newImage);
+        await enqueueCapture(user.uid, newImage, {
+          analyze: settings.autoAnalyze,
+          plantType: activePlant?.species || settings.plantType,
+          roi: activePlant?.roi,
+          localFallback: settings.localAnalysisFallback,
+          reanalyzeBelow: settings.reanalyzeLowConfidence ? settings.minConfidenceThreshold : undefined
+        });
       } catch (e: any) {
-        console.error("Failed to save snapshot to Firestore:", e);
+        console.error("Failed to queue snapshot:", e);
+        setGlobalError("Failed to save snapshot.");
+        return;
       }
-    } else {
-      setImages(prev => [...prev, newImage]);
+      drainQueue(user.uid);
+      return;
     }
 
+    setStoredImages(prev => [...prev, newImage]);
+    measureImage(dataUrl, activePlant?.roi)
+      .then(growthMetrics => setStoredImages(prev => prev.map(img => img.id === newImage.id ? { ...img, growthMetrics } : img)))
+      .catch(e => console.warn("Growth metrics failed:", e));
     if (settings.autoAnalyze) {
       try {
-        const prompt = `Analyze plant snapshot. [HEALTH: STATUS][STAGE: stage][TAGS: tag1][ADVICE: text][CONFIDENCE: X%]`;
-        const analysis = await analyzeImage(dataUrl, prompt, settings.plantType);
-        const metadata = parseMetaData(analysis);
-        
-        if (user) {
-          const q = query(
-            collection(db, 'users', user.uid, 'snapshots'),
-            where('timestamp', '==', newImage.timestamp),
-            limit(1)
-          );
-          const snap = await getDocs(q);
-          if (!snap.empty) {
-            await setDoc(doc(db, 'users', user.uid, 'snapshots', snap.docs[0].id), {
-              analysis,
-              healthStatus: metadata.healthStatus,
-              growthStage: metadata.growthStage,
-              confidence: metadata.confidence
-            }, { merge: true });
-          }
+        let analysis;
+        try {
+          analysis = await analyzePlantSnapshot(dataUrl, activePlant?.species || settings.plantType);
+        } catch (e) {
+          if (!settings.localAnalysisFallback) throw e;
+          console.warn("Cloud analysis failed, using on-device classifier:", e);
+          analysis = await classifySnapshot(dataUrl, activePlant?.roi);
         }
+        if (settings.reanalyzeLowConfidence) {
+          analysis = await reanalyzeIfLowConfidence(analysis, dataUrl, activePlant?.species || settings.plantType, settings.minConfidenceThreshold);
+        }
+        const fields = analysisToSnapshotFields(analysis);
+        setStoredImages(prev => prev.map(img => img.id === newImage.id ? { ...img, ...fields } : img));
       } catch (e) {
         console.error("AI Analysis failed:", e);
       }
     }
   };
 
-  const parseMetaData = (text: string) => {
-    const confidence = text.match(/\[CONFIDENCE:\s*(\d+)%?\]/i);
-    const health = text.match(/\[HEALTH:\s*(HEALTHY|STRESSED|CRITICAL)\]/i);
-    const stage = text.match(/\[STAGE:\s*([^\]]+)\]/i);
-    return {
-      confidence: confidence ? parseInt(confidence[1]) : undefined,
-      healthStatus: health ? (health[1].toUpperCase() as any) : undefined,
-      growthStage: stage ? stage[1].trim() : undefined
-    };
+  /**
+   * Computes stabilization transforms for one plant's frames, or for every
+   * plant when no id is given. Each plant is aligned against its own first frame.
+   */
+  const handleAlignFrames = async (plantId?: string) => {
+    const sequences = plantId
+      ? [filterImagesByPlant(images, plantId, plants)]
+      : groupImagesByPlant(images, plants).map(g => [...g.images].reverse());
+    const total = sequences.reduce((n, seq) => n + seq.length, 0);
+    if (total === 0) return;
+
+    setAlignProgress(0);
+    try {
+      let done = 0;
+      for (const sequence of sequences) {
+        const updates = await alignSequence(sequence, {
+          onProgress: p => setAlignProgress((done + p * sequence.length) / total)
+        });
+        done += sequence.length;
+        if (updates.size === 0) continue;
+        if (user) {
+          await Promise.all([...updates].map(([id, alignment]) =>
+            setDoc(doc(db, 'users', user.uid, 'snapshots', id), { alignment }, { merge: true })
+          ));
+        } else {
+          setStoredImages(prev => prev.map(img => updates.has(img.id) ? { ...img, alignment: updates.get(img.id) } : img));
+        }
+      }
+    } catch (e) {
+      console.error("Frame alignment failed:", e);
+      setGlobalError("Frame alignment failed.");
+    } finally {
+      setAlignProgress(null);
+    }
+  };
+
+  /**
+   * Measures snapshots that have no growth metrics yet, or whose metrics were
+   * taken over a different region than their plant's current ROI.
+   */
+  const handleMeasureGrowth = async (plantId?: string) => {
+    const pending = filterImagesByPlant(images, plantId, plants)
+      .filter(img => needsGrowthMetrics(img, findPlant(plants, img.plantId)?.roi));
+    if (pending.length === 0) return;
+
+    setMeasureProgress(0);
+    let failed = 0;
+    for (let i = 0; i < pending.length; i++) {
+      const img = pending[i];
+      try {
+        const growthMetrics = await measureImage(await loadSnapshotDataUrl(img), findPlant(plants, img.plantId)?.roi);
+        if (user) {
+          await setDoc(doc(db, 'users', user.uid, 'snapshots', img.id), { growthMetrics }, { mergeFields: ['growthMetrics'] });
+        } else {
+          setStoredImages(prev => prev.map(p => p.id === img.id ? { ...p, growthMetrics } : p));
+        }
+      } catch (e) {
+        console.error("Growth measurement failed:", e);
+        failed++;
+      }
+      setMeasureProgress((i + 1) / pending.length);
+    }
+    setMeasureProgress(null);
+    if (failed > 0) setGlobalError(`Failed to measure ${failed} snapshot${failed === 1 ? '' : 's'}.`);
+  };
+
+  const handleSavePlantRoi = async (plantId: string, roi?: BoundingBox) => {
+    const plant = findPlant(plants, plantId);
+    if (!plant) return;
+    await handleSavePlant({ ...plant, roi });
+  };
+
+  const updateReminder = (updated: CareReminder) => {
+    setSettings(prev => ({
+      ...prev,
+      careReminders: (prev.careReminders || []).map(r => r.id === updated.id ? updated : r)
+    }));
+  };
+
+  const saveCareAction = async (action: CareAction) => {
+    if (!user) {
+      setCareActions(prev => [action, ...prev]);
+      return true;
+    }
+    try {
+      await addDoc(collection(db, 'users', user.uid, 'careActions'), action);
+      return true;
+    } catch (e) {
+      console.error("Failed to log care action:", e);
+      setGlobalError("Failed to save care history.");
+      return false;
+    }
+  };
+
+  const handleCompleteReminder = async (reminder: CareReminder) => {
+    const action = createCareAction(reminder, user?.uid || 'anonymous');
+    updateReminder(completeReminder(reminder, action.timestamp));
+    await saveCareAction(action);
+  };
+
+  const handleSnoozeReminder = (reminder: CareReminder, hours: number) => {
+    updateReminder(snoozeReminder(reminder, hours));
+  };
+
+  const handleLiveRecording = async (archive: LiveSessionArchive) => {
+    try {
+      await saveLiveRecording(user?.uid || null, archive, settings.liveRecordingStorage || 'local', settings.activePlantId);
+    } catch (e) {
+      console.error("Failed to save live recording:", e);
+      setGlobalError("Failed to save the session recording.");
+    }
+  };
+
+  // Tools the Live botanist can call; LiveAudio adds the camera ones itself
+  const liveTools: LiveToolHandlers = {
+    logCareAction: async ({ type, note }) => {
+      if (!CARE_TYPES.includes(type)) throw new Error(`Unknown care type: ${type}`);
+      const reminder = type === 'custom' ? undefined : settings.careReminders?.find(r => r.isActive && r.type === type);
+      const action = reminder
+        ? { ...createCareAction(reminder, user?.uid || 'anonymous'), ...(note ? { note } : {}) }
+        : createLoggedCareAction(type, user?.uid || 'anonymous', note);
+      if (reminder) updateReminder(completeReminder(reminder, action.timestamp));
+      if (!await saveCareAction(action)) throw new Error("Failed to save care history.");
+      return { result: `${action.title} logged.`, loggedAt: new Date(action.timestamp).toISOString(), reminderAdvanced: !!reminder };
+    },
+    setReminder: async ({ type, frequencyDays, title }) => {
+      if (!CARE_TYPES.includes(type)) throw new Error(`Unknown care type: ${type}`);
+      const days = frequencyDays && frequencyDays > 0 ? Math.max(1, Math.round(frequencyDays)) : undefined;
+      const existing = type === 'custom' ? undefined : settings.careReminders?.find(r => r.type === type);
+      const reminder = existing
+        ? { ...createReminder(type, Date.now(), { title: title || existing.title, frequencyDays: days ?? existing.frequencyDays }), id: existing.id }
+        : createReminder(type, Date.now(), { title, frequencyDays: days });
+      setSettings(prev => ({
+        ...prev,
+        careReminders: existing
+          ? (prev.careReminders || []).map(r => r.id === existing.id ? reminder : r)
+          : [...(prev.careReminders || []), reminder]
+      }));
+      return { result: `${reminder.title} reminder set for every ${reminder.frequencyDays} day${reminder.frequencyDays === 1 ? '' : 's'}.`, nextDue: new Date(reminder.nextDue).toISOString() };
+    },
+    getPlantHistory: async ({ limit }) => getPlantHistory(images, findPlant(plants, settings.activePlantId), limit),
+    startMonitoring: async () => {
+      setActive(true);
+      return { result: active ? 'Monitoring was already running.' : 'Monitoring started.', monitoring: true };
+    },
+    stopMonitoring: async () => {
+      setActive(false);
+      return { result: active ? 'Monitoring stopped.' : 'Monitoring was not running.', monitoring: false };
+    }
+  };
+
+  const handleSavePlant = async (fields: Pick<Plant, 'name'> & Partial<Plant>) => {
+    const plant = createPlant(user?.uid || 'anonymous', fields);
+    if (!user) {
+      setPlants(prev => [...prev.filter(p => p.id !== plant.id), plant]);
+      return plant;
+    }
+    try {
+      await setDoc(doc(db, 'users', user.uid, 'plants', plant.id), plant);
+    } catch (e) {
+      console.error("Failed to save plant:", e);
+      setGlobalError("Failed to save plant.");
+    }
+    return plant;
+  };
+
+  const handleDeletePlant = async (plantId: string) => {
+    if (settings.activePlantId === plantId) {
+      setSettings(prev => ({ ...prev, activePlantId: undefined }));
+    }
+    if (!user) {
+      setPlants(prev => prev.filter(p => p.id !== plantId));
+      return;
+    }
+    try {
+      // Snapshots keep their plantId and fall back to the unassigned group
+      await deleteDoc(doc(db, 'users', user.uid, 'plants', plantId));
+    } catch (e) {
+      console.error("Failed to delete plant:", e);
+      setGlobalError("Failed to delete plant.");
+    }
   };
 
   const exportData = (format: 'json' | 'csv') => {
@@ -417,40 +958,262 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  /**
+   * Returns the active conversation, creating one for the active plant when
+   * none is open. Writes are not awaited; the local cache applies them at once
+   * and Firestore syncs them when the connection allows.
+   */
+  const ensureConversation = () => {
+    if (conversationRef.current) return conversationRef.current;
+    const conversation = createConversation(user.uid, settings.activePlantId);
+    conversationRef.current = conversation;
+    setDoc(doc(db, 'users', user.uid, 'conversations', conversation.id), conversation)
+      .catch(e => console.error("Failed to create conversation:", e));
+    setActiveConversationId(conversation.id);
+    return conversation;
+  };
+
+  const addChatMessage = (message: ChatMessage) => {
+    setChatMessages(prev => [...prev, message]);
+    persistChatMessage(message);
+  };
+
+  const persistChatMessage = (message: ChatMessage) => {
+    if (!user) return;
+
+    const conversation = ensureConversation();
+    const update = conversationUpdateForMessage(conversation, message);
+    conversationRef.current = { ...conversation, ...update };
+    setDoc(doc(db, 'users', user.uid, 'conversations', conversation.id, 'messages', message.id), { ...message, uid: user.uid })
+      .catch(e => {
+        console.error("Failed to save message:", e);
+        setGlobalError("Failed to save message.");
+      });
+    setDoc(doc(db, 'users', user.uid, 'conversations', conversation.id), update, { merge: true })
+      .catch(e => console.error("Failed to update conversation:", e));
+
+    // Name the conversation once the first exchange is complete
+    if (!conversation.titleGenerated && message.role === 'model') {
+      conversationRef.current.titleGenerated = true;
+      generateConversationTitle([...chatMessagesRef.current.filter(m => m.id !== message.id), message]).then(title => {
+        if (conversationRef.current?.id === conversation.id) conversationRef.current.title = title;
+        return setDoc(doc(db, 'users', user.uid, 'conversations', conversation.id), { title, titleGenerated: true }, { merge: true });
+      }).catch(e => console.error("Failed to title conversation:", e));
+    }
+  };
+
+  const flushLiveTurn = () => {
+    const turn = liveTurnRef.current;
+    if (!turn) return;
+    clearTimeout(turn.timer);
+    liveTurnRef.current = null;
+    persistChatMessage(turn.message);
+  };
+
+  /**
+   * Live transcription arrives in fragments. Consecutive fragments from the
+   * same speaker are shown as one growing message, which is saved once the
+   * speaker changes, the turn goes quiet or Live mode closes.
+   */
+  const handleLiveTranscript = (text: string, isUser: boolean) => {
+    const role = isUser ? 'user' : 'model';
+    const turn = liveTurnRef.current;
+    if (turn && turn.message.role === role) {
+      clearTimeout(turn.timer);
+      const message = { ...turn.message, text: turn.message.text + text };
+      setChatMessages(prev => prev.map(m => m.id === message.id ? message : m));
+      liveTurnRef.current = { message, timer: setTimeout(flushLiveTurn, LIVE_TURN_IDLE_MS) };
+      return;
+    }
+    flushLiveTurn();
+    const message: ChatMessage = { id: crypto.randomUUID(), role, text, timestamp: Date.now() };
+    setChatMessages(prev => [...prev, message]);
+    liveTurnRef.current = { message, timer: setTimeout(flushLiveTurn, LIVE_TURN_IDLE_MS) };
+  };
+
+  const handleNewConversation = () => {
+    conversationRef.current = null;
+    setActiveConversationId(null);
+    setChatMessages([]);
+  };
+
+  const handleOpenConversation = (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    conversationRef.current = conversation;
+    setActiveConversationId(id);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (!user) return;
+    try {
+      const messages = await getDocs(collection(db, 'users', user.uid, 'conversations', id, 'messages'));
+      await Promise.all(messages.docs.map(d => deleteDoc(d.ref)));
+      await deleteDoc(doc(db, 'users', user.uid, 'conversations', id));
+      if (activeConversationId === id) handleNewConversation();
+    } catch (e) {
+      console.error("Failed to delete conversation:", e);
+      setGlobalError("Failed to delete conversation.");
+    }
+  };
+
+  const handleGenerateReport = async (plantId: string | undefined, rangeStart: number, rangeEnd: number) => {
+    setIsGeneratingReport(true);
+    try {
+      const report = await createGrowthReport(user?.uid || 'anonymous', images, findPlant(plants, plantId), rangeStart, rangeEnd);
+      if (user) {
+        await setDoc(doc(db, 'users', user.uid, 'reports', report.id), report);
+      } else {
+        setReports(prev => [report, ...prev]);
+      }
+      return report;
+    } catch (e: any) {
+      console.error("Report generation failed:", e);
+      setGlobalError(e.message || "Report generation failed.");
+      return null;
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
+  const handleDeleteReport = async (id: string) => {
+    if (!user) {
+      setReports(prev => prev.filter(r => r.id !== id));
+      return;
+    }
+    try {
+      await deleteDoc(doc(db, 'users', user.uid, 'reports', id));
+    } catch (e) {
+      console.error("Failed to delete report:", e);
+      setGlobalError("Failed to delete report.");
+    }
+  };
+
+  /**
+   * Stores a reviewer's label next to the AI output, which stays untouched.
+   * The label holds only the fields the reviewer set and replaces the previous
+   * one; a null label reverts the snapshot to its AI labels.
+   */
+  const handleLabelSnapshot = async (img: CapturedImage, label: Omit<HumanLabel, 'labeledAt'> | null) => {
+    const humanLabel: HumanLabel | undefined = label ? { ...label, labeledAt: Date.now() } : undefined;
+    if (!user) {
+      setStoredImages(prev => prev.map(p => p.id === img.id ? { ...p, humanLabel } : p));
+      return;
+    }
+    try {
+      // mergeFields replaces the whole label, so cleared fields do not linger
+      await setDoc(doc(db, 'users', user.uid, 'snapshots', img.id), { humanLabel: humanLabel || deleteField() }, { mergeFields: ['humanLabel'] });
+    } catch (e) {
+      console.error("Failed to save label:", e);
+      setGlobalError("Failed to save label.");
+    }
+  };
+
+  /**
+   * Runs a localized diagnosis and saves it on the snapshot, replacing any
+   * earlier one.
+   */
+  const handleDiagnoseSnapshot = async (img: CapturedImage) => {
+    setDiagnosingId(img.id);
+    try {
+      const plant = findPlant(plants, img.plantId);
+      const diagnosis = await diagnoseSnapshot(await loadSnapshotDataUrl(img), plant?.species || settings.plantType);
+      if (user) {
+        await setDoc(doc(db, 'users', user.uid, 'snapshots', img.id), { diagnosis }, { mergeFields: ['diagnosis'] });
+      } else {
+        setStoredImages(prev => prev.map(p => p.id === img.id ? { ...p, diagnosis } : p));
+      }
+    } catch (e: any) {
+      console.error("Diagnosis failed:", e);
+      setGlobalError(e.message || "Diagnosis failed.");
+    } finally {
+      setDiagnosingId(null);
+    }
+  };
+
+  // The snapshot subscription only holds the latest page; accuracy and exports need the full history
+  const loadAllSnapshots = async () => {
+    if (!user) return images;
+    const snapshot = await getDocs(query(collection(db, 'users', user.uid, 'snapshots'), orderBy('timestamp', 'desc')));
+    return snapshot.docs.map(d => hydrateLegacyAnalysis({ ...d.data(), id: d.id } as CapturedImage));
+  };
+
+  const handleAcknowledgeAlert = async (id: string) => {
+    const acknowledgedAt = Date.now();
+    if (!user) {
+      setAlerts(prev => prev.map(a => a.id === id ? { ...a, acknowledged: true, acknowledgedAt } : a));
+      return;
+    }
+    try {
+      await setDoc(doc(db, 'users', user.uid, 'alerts', id), { acknowledged: true, acknowledgedAt }, { merge: true });
+    } catch (e) {
+      console.error("Failed to acknowledge alert:", e);
+      setGlobalError("Failed to acknowledge alert.");
+    }
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!userInput.trim()) return;
-    const newMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: userInput, timestamp: Date.now() };
-    setChatMessages(prev => [...prev, newMsg]);
+    if (!userInput.trim() && chatAttachments.length === 0) return;
+    const attachments = chatAttachments;
+    const newMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: userInput.trim() || `Please analyze the attached image${attachments.length === 1 ? '' : 's'}.`,
+      timestamp: Date.now(),
+      ...attachmentMessageFields(attachments)
+    };
+    addChatMessage(newMsg);
     setUserInput('');
+    setChatAttachments([]);
     setIsProcessing(true);
-    try {
-      // Check if the user is asking about an image and we have images
-      const isAskingAboutImage = /image|photo|picture|scan|capture|see|voir|dernière|derniere|plante/i.test(newMsg.text);
-      const latestImage = isAskingAboutImage && images.length > 0 ? images[0].data : undefined;
 
-      const result = await sendMessage(chatMessages, newMsg.text, {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    // The reply is rendered from local state while streaming and persisted once it ends
+    let reply: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: '', timestamp: Date.now() };
+    setStreamingMessage(reply);
+    try {
+      const stream = streamMessage(chatMessages, newMsg.text, {
         useThinking,
         useSearch,
         useMaps,
         location,
-        image: latestImage
+        images: await resolveAttachmentImages(attachments),
+        signal: controller.signal
       });
-      setChatMessages(prev => [...prev, { 
-        id: Date.now().toString(), 
-        role: 'model', 
-        text: result.text || "", 
-        timestamp: Date.now(),
-        groundingUrls: result.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c: any) => ({
-          title: c.web?.title || c.maps?.title,
-          uri: c.web?.uri || c.maps?.uri
-        }))
-      }]);
+      for await (const chunk of stream) {
+        const grounding = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        reply = {
+          ...reply,
+          text: reply.text + (chunk.text || ''),
+          ...(chunk.thought ? { thoughts: (reply.thoughts || '') + chunk.thought } : {}),
+          ...(grounding ? {
+            groundingUrls: grounding.map((c: any) => ({
+              title: c.web?.title || c.maps?.title,
+              uri: c.web?.uri || c.maps?.uri
+            }))
+          } : {})
+        };
+        setStreamingMessage(reply);
+      }
+      if (controller.signal.aborted) reply = { ...reply, interrupted: true };
     } catch (e: any) { 
       console.error(e);
       setGlobalError(e.message || "Neural link failed.");
       setTimeout(() => setGlobalError(null), 5000);
-    } finally { setIsProcessing(false); }
+      reply = { ...reply, interrupted: true };
+    } finally {
+      // Keep whatever arrived, even if the stream was stopped or failed midway
+      if (reply.text || reply.thoughts) addChatMessage({ ...reply, timestamp: Date.now() });
+      setStreamingMessage(null);
+      streamAbortRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleStopGeneration = () => {
+    streamAbortRef.current?.abort();
   };
 
   const handleGenerateImage = async () => {
@@ -462,13 +1225,14 @@ const App: React.FC = () => {
     try {
       const result = await generateImage(userInput);
       if (result.imageUrl) {
-        setChatMessages(prev => [...prev, {
+        addChatMessage({
           id: Date.now().toString(),
           role: 'model',
           text: "Generated image based on your prompt:",
           timestamp: Date.now(),
-          imageUrl: result.imageUrl
-        }]);
+          // Re-encoded so the message fits in a Firestore document
+          imageUrl: await resizeImage(result.imageUrl, CHAT_IMAGE_MAX_SIZE, 0.85)
+        });
         setUserInput('');
       }
     } catch (e: any) {
@@ -507,8 +1271,20 @@ const App: React.FC = () => {
     setShowLogoutConfirm(false);
     try {
       await signOut(auth);
-      setImages([]);
+      setStoredImages([]);
+      setCareActions([]);
+      setPlants([]);
       setChatMessages([]);
+      setConversations([]);
+      setReports([]);
+      setReportsLoaded(false);
+      digestAttemptsRef.current.clear();
+      setAlerts([]);
+      setAlertsLoaded(false);
+      alertAttemptsRef.current.clear();
+      conversationRef.current = null;
+      resumedRef.current = false;
+      setActiveConversationId(null);
     } catch (e: any) {
       setGlobalError("Logout failed: " + e.message);
     }
@@ -638,6 +1414,15 @@ const App: React.FC = () => {
           <span className="text-xl font-extrabold tracking-tighter text-primary font-headline italic drop-shadow-[0_0_8px_rgba(157,216,80,0.5)]">Lumina Gemma</span>
         </div>
         <div className="flex items-center gap-2">
+          <div 
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/30 border border-white/5"
+            title={queueDepth > 0 ? `${queueDepth} capture(s) waiting to sync` : 'All captures synced'}
+          >
+            <div className={`w-2 h-2 rounded-full ${!isOnline || connectionStatus === 'ERROR' ? 'bg-error' : connectionStatus === 'SYNCING' ? 'bg-yellow-400 animate-pulse' : 'bg-primary'}`}></div>
+            <span className="text-[9px] font-label font-bold tracking-widest text-primary/70 uppercase">
+              {!isOnline ? 'OFFLINE' : connectionStatus}{queueDepth > 0 ? ` // ${queueDepth}` : ''}
+            </span>
+          </div>
           <button 
             onClick={() => setStealthMode(!stealthMode)} 
             className={`w-10 h-10 flex items-center justify-center rounded-full transition-all duration-500 ${stealthMode ? 'bg-primary/20 text-primary' : 'text-primary/60 hover:bg-primary/10'}`}
@@ -655,7 +1440,23 @@ const App: React.FC = () => {
 
       <div className="flex-1 flex overflow-hidden relative">
         <main className="flex-1 p-4 sm:p-6 space-y-6 overflow-y-auto custom-scrollbar pt-[calc(6rem+max(env(safe-area-inset-top),2rem))] pb-[calc(8rem+max(env(safe-area-inset-bottom),2rem))] max-w-7xl mx-auto w-full">
-          {activeTab === 'home' && <HomeTab images={images} active={active} setActive={setActive} settings={settings} setSettings={setSettings} />}
+          {activeTab === 'home' && (
+            <HomeTab 
+              images={images} 
+              active={active} 
+              setActive={setActive} 
+              settings={settings} 
+              setSettings={setSettings} 
+              careActions={careActions}
+              onCompleteReminder={handleCompleteReminder}
+              onSnoozeReminder={handleSnoozeReminder}
+              alerts={alerts}
+              plants={plants}
+              onAcknowledgeAlert={handleAcknowledgeAlert}
+              onSelectImage={setSelectedImage}
+              onLabelSnapshot={handleLabelSnapshot}
+            />
+          )}
           {activeTab === 'scan' && (
             <ScanTab 
               cameraRef={cameraRef} 
@@ -669,22 +1470,48 @@ const App: React.FC = () => {
               handleManualCapture={handleManualCapture} 
               flash={flash} 
               images={images} 
+              plants={plants}
             />
           )}
           {activeTab === 'plants' && (
             <PlantsTab 
               images={images} 
+              plants={plants}
               setSelectedImage={setSelectedImage} 
               setPlaybackMode={setPlaybackMode} 
               deleteSnapshot={deleteSnapshot} 
+              onExportTimelapse={() => setShowTimelapseExport(true)}
+              onAlignFrames={handleAlignFrames}
+              alignProgress={alignProgress}
+              onMeasureGrowth={handleMeasureGrowth}
+              measureProgress={measureProgress}
+              minConfidence={settings.minConfidenceThreshold}
+              onOpenLabelAccuracy={() => setShowLabelAccuracy(true)}
             />
           )}
           {activeTab === 'library' && (
-            <LibraryTab images={images} />
+            <LibraryTab 
+              images={images} 
+              plants={plants}
+              activePlantId={settings.activePlantId}
+              onSelectPlant={(plantId: string) => setSettings({...settings, activePlantId: plantId})}
+              onSavePlant={handleSavePlant}
+              onDeletePlant={handleDeletePlant}
+            />
           )}
           {activeTab === 'schedule' && (
             <ScheduleTab 
               chatMessages={chatMessages} 
+              plants={plants} 
+              chatAttachments={chatAttachments} 
+              streamingMessage={streamingMessage} 
+              onStopGeneration={handleStopGeneration} 
+              setChatAttachments={setChatAttachments} 
+              conversations={conversations} 
+              activeConversationId={activeConversationId} 
+              onNewConversation={handleNewConversation} 
+              onOpenConversation={user ? handleOpenConversation : undefined} 
+              onDeleteConversation={handleDeleteConversation} 
               userInput={userInput} 
               setUserInput={setUserInput} 
               handleChatSubmit={handleChatSubmit} 
@@ -696,9 +1523,10 @@ const App: React.FC = () => {
               setUseSearch={setUseSearch} 
               useMaps={useMaps} 
               setUseMaps={setUseMaps} 
+              aiCapabilities={aiCapabilities} 
               handleSpeak={handleSpeak} 
               speakingMessageId={speakingMessageId} 
-              generateGrowthReport={generateGrowthReport} 
+              onOpenReports={() => setShowReports(true)} 
               images={images} 
             />
           )}
@@ -773,59 +1601,193 @@ const App: React.FC = () => {
                   {(!settings.captureSchedules || settings.captureSchedules.length === 0) && (
                     <p className="text-[10px] text-gray-600 font-mono italic">No custom schedules. Using default interval.</p>
                   )}
-                  {settings.captureSchedules?.map(sched => (
-                    <div key={sched.id} className="flex items-center justify-between bg-white/5 p-2 rounded border border-white/10">
-                      <div className="flex items-center gap-2">
-                        <select 
-                          value={sched.type}
-                          onChange={e => {
-                            const newSchedules = settings.captureSchedules!.map(s => s.id === sched.id ? {...s, type: e.target.value as any} : s);
-                            setSettings({...settings, captureSchedules: newSchedules});
-                          }}
-                          className="bg-transparent text-[10px] text-primary outline-none font-bold uppercase"
-                        >
-                          <option value="interval">Interval</option>
-                          <option value="daily">Daily</option>
-                          <option value="weekly">Weekly</option>
-                        </select>
-                        {sched.type === 'daily' && (
-                          <input 
-                            type="time" 
-                            value={sched.timeOfDay || '12:00'}
-                            onChange={e => {
-                              const newSchedules = settings.captureSchedules!.map(s => s.id === sched.id ? {...s, timeOfDay: e.target.value} : s);
-                              setSettings({...settings, captureSchedules: newSchedules});
-                            }}
-                            className="bg-transparent text-[10px] text-white outline-none"
-                          />
+                  {settings.captureSchedules?.map(sched => {
+                    const updateSchedule = (patch: Partial<CaptureSchedule>) => {
+                      const newSchedules = settings.captureSchedules!.map(s => s.id === sched.id ? {...s, ...patch} : s);
+                      setSettings({...settings, captureSchedules: newSchedules});
+                    };
+                    return (
+                      <div key={sched.id} className={`bg-white/5 p-2 rounded border border-white/10 space-y-2 transition-opacity ${sched.isActive ? '' : 'opacity-40'}`}>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <select 
+                              value={sched.type}
+                              onChange={e => updateSchedule({ type: e.target.value as CaptureSchedule['type'] })}
+                              className="bg-transparent text-[10px] text-primary outline-none font-bold uppercase"
+                            >
+                              <option value="interval">Interval</option>
+                              <option value="daily">Daily</option>
+                              <option value="weekly">Weekly</option>
+                            </select>
+                            {(sched.type === 'daily' || sched.type === 'weekly') && (
+                              <input 
+                                type="time" 
+                                value={sched.timeOfDay || '12:00'}
+                                onChange={e => updateSchedule({ timeOfDay: e.target.value })}
+                                className="bg-transparent text-[10px] text-white outline-none"
+                              />
+                            )}
+                            {sched.type === 'interval' && (
+                              <input 
+                                type="number" 
+                                min="1"
+                                value={sched.intervalMinutes || 60}
+                                onChange={e => updateSchedule({ intervalMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className="bg-transparent text-[10px] text-white outline-none w-12"
+                                placeholder="Mins"
+                              />
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button 
+                              onClick={() => updateSchedule({ isActive: !sched.isActive })}
+                              className={sched.isActive ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}
+                              title={sched.isActive ? 'Pause Schedule' : 'Resume Schedule'}
+                            >
+                              <Power size={12} />
+                            </button>
+                            <button 
+                              onClick={() => {
+                                const newSchedules = settings.captureSchedules!.filter(s => s.id !== sched.id);
+                                setSettings({...settings, captureSchedules: newSchedules});
+                              }}
+                              className="text-error hover:text-red-400"
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                        </div>
+                        {sched.type === 'weekly' && (
+                          <div className="grid grid-cols-7 gap-0.5">
+                            {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((label, day) => {
+                              const selected = sched.daysOfWeek?.includes(day);
+                              return (
+                                <button 
+                                  key={day}
+                                  onClick={() => {
+                                    const days = sched.daysOfWeek || [];
+                                    updateSchedule({ daysOfWeek: selected ? days.filter(d => d !== day) : [...days, day].sort() });
+                                  }}
+                                  className={`py-1 text-[9px] rounded font-bold transition-all ${selected ? 'bg-primary text-[#04110c]' : 'text-gray-500 hover:text-white'}`}
+                                >
+                                  {label}
+                                </button>
+                              );
+                            })}
+                          </div>
                         )}
-                        {sched.type === 'interval' && (
+                        <div className="flex items-center justify-between text-[9px] font-mono text-gray-500 uppercase">
+                          <span>Ends</span>
                           <input 
-                            type="number" 
-                            value={sched.intervalMinutes || 60}
-                            onChange={e => {
-                              const newSchedules = settings.captureSchedules!.map(s => s.id === sched.id ? {...s, intervalMinutes: parseInt(e.target.value)} : s);
-                              setSettings({...settings, captureSchedules: newSchedules});
-                            }}
-                            className="bg-transparent text-[10px] text-white outline-none w-12"
-                            placeholder="Mins"
+                            type="date"
+                            value={sched.endDate ? toDateInput(sched.endDate) : ''}
+                            onChange={e => updateSchedule({ endDate: e.target.value ? new Date(`${e.target.value}T23:59:59`).getTime() : undefined })}
+                            className="bg-transparent text-[9px] text-white outline-none"
                           />
-                        )}
+                        </div>
                       </div>
-                      <button 
-                        onClick={() => {
-                          const newSchedules = settings.captureSchedules!.filter(s => s.id !== sched.id);
-                          setSettings({...settings, captureSchedules: newSchedules});
-                        }}
-                        className="text-error hover:text-red-400"
-                      >
-                        <Trash2 size={12} />
-                      </button>
+                    );
+                  })}
+                </div>
+                <div className="space-y-1 p-2 bg-black/40 rounded border border-white/5">
+                  <p className="text-[9px] font-mono text-gray-500 uppercase tracking-widest font-bold">Next Captures</p>
+                  {resolveSchedules(settings.captureSchedules, settings.intervalHours, currentTime.getTime()).length === 0 && (
+                    <p className="text-[10px] font-mono text-gray-500">NONE // ALL SCHEDULES PAUSED OR ENDED</p>
+                  )}
+                  {getUpcomingFireTimes(
+                    resolveSchedules(settings.captureSchedules, settings.intervalHours, currentTime.getTime()),
+                    currentTime.getTime(),
+                    5,
+                    scheduleAnchor ?? currentTime.getTime()
+                  ).map(fire => (
+                    <div key={fire.time} className="flex justify-between text-[10px] font-mono">
+                      <span className="text-gray-300">{new Date(fire.time).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                      {fire.scheduleIds.length > 1 && <span className="text-primary">x{fire.scheduleIds.length} MERGED</span>}
                     </div>
                   ))}
                 </div>
               </section>
 
+              {/* Care Reminders Section */}
+              <section className="space-y-4">
+                <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-[0.1em]">
+                  <span className="text-gray-500 flex items-center gap-2 font-bold"><Droplet size={12}/> Care Reminders</span>
+                  <button 
+                    onClick={() => setSettings({...settings, careReminders: [...(settings.careReminders || []), createReminder('water')]})}
+                    className="text-primary hover:text-white transition-colors"
+                  >
+                    + ADD
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {(!settings.careReminders || settings.careReminders.length === 0) && (
+                    <p className="text-[10px] text-gray-600 font-mono italic">No care reminders configured.</p>
+                  )}
+                  {settings.careReminders?.map(reminder => {
+                    const patchReminder = (patch: Partial<CareReminder>) => updateReminder({...reminder, ...patch});
+                    return (
+                      <div key={reminder.id} className={`bg-white/5 p-2 rounded border border-white/10 space-y-2 transition-opacity ${reminder.isActive ? '' : 'opacity-40'}`}>
+                        <div className="flex items-center justify-between gap-2">
+                          <input 
+                            type="text"
+                            value={reminder.title}
+                            onChange={e => patchReminder({ title: e.target.value })}
+                            className="bg-transparent text-[10px] text-white outline-none font-bold min-w-0 flex-1"
+                          />
+                          <div className="flex items-center gap-2">
+                            <button 
+                              onClick={() => patchReminder({ isActive: !reminder.isActive })}
+                              className={reminder.isActive ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}
+                              title={reminder.isActive ? 'Pause Reminder' : 'Resume Reminder'}
+                            >
+                              <Power size={12} />
+                            </button>
+                            <button 
+                              onClick={() => setSettings({...settings, careReminders: settings.careReminders!.filter(r => r.id !== reminder.id)})}
+                              className="text-error hover:text-red-400"
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <select 
+                            value={reminder.type}
+                            onChange={e => patchReminder({ type: e.target.value as CareReminder['type'] })}
+                            className="bg-transparent text-[10px] text-primary outline-none font-bold uppercase"
+                          >
+                            <option value="water">Water</option>
+                            <option value="fertilize">Fertilize</option>
+                            <option value="prune">Prune</option>
+                            <option value="custom">Custom</option>
+                          </select>
+                          <div className="flex items-center gap-1 text-[9px] font-mono text-gray-500 uppercase">
+                            <span>Every</span>
+                            <input 
+                              type="number"
+                              min="1"
+                              value={reminder.frequencyDays}
+                              onChange={e => patchReminder({ frequencyDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                              className="bg-transparent text-[10px] text-white outline-none w-8 text-right"
+                            />
+                            <span>Days</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between text-[9px] font-mono text-gray-500 uppercase">
+                          <span>Next Due</span>
+                          <input 
+                            type="date"
+                            value={toDateInput(reminder.nextDue)}
+                            onChange={e => e.target.value && patchReminder({ nextDue: new Date(`${e.target.value}T09:00:00`).getTime() })}
+                            className="bg-transparent text-[9px] text-white outline-none"
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+
               {/* Min Confidence Section */}
               <section className="space-y-4">
                 <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-[0.1em]">
@@ -841,6 +1803,17 @@ const App: React.FC = () => {
                     className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-primary"
                   />
                 </div>
+                <p className="text-[9px] text-gray-500 font-mono">Lower results go to the review queue and are left out of health stats.</p>
+                <div className={`flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group ${aiCapabilities.thinking ? '' : 'opacity-40'}`}>
+                  <span className="text-[11px] font-bold text-gray-300">Re-Analyze With Thinking</span>
+                  <button 
+                    onClick={() => setSettings({...settings, reanalyzeLowConfidence: !settings.reanalyzeLowConfidence})} 
+                    disabled={!aiCapabilities.thinking}
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${settings.reanalyzeLowConfidence ? 'bg-primary shadow-[0_0_12px_rgba(192,254,113,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.reanalyzeLowConfidence ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
               </section>
 
               {/* Timestamp Overlay Section */}
@@ -871,6 +1844,69 @@ const App: React.FC = () => {
                     <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.autoAnalyze ? 'right-1' : 'left-1'}`}></div>
                   </button>
                 </div>
+                <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
+                  <span className="text-[11px] font-bold text-gray-300">On-Device Fallback</span>
+                  <button 
+                    onClick={() => setSettings({...settings, localAnalysisFallback: !settings.localAnalysisFallback})} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${settings.localAnalysisFallback ? 'bg-primary shadow-[0_0_12px_rgba(192,254,113,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.localAnalysisFallback ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+                <p className="text-[9px] text-gray-500 font-mono">Coarse health and stage estimates without network or API key.</p>
+                <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
+                  <span className="text-[11px] font-bold text-gray-300">Weekly Digest</span>
+                  <button 
+                    onClick={() => setSettings({...settings, weeklyDigest: settings.weeklyDigest === false})} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${settings.weeklyDigest !== false ? 'bg-primary shadow-[0_0_12px_rgba(192,254,113,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.weeklyDigest !== false ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+              </section>
+
+              {/* AI Provider Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><BrainCircuit size={12}/> AI Provider</label>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-black/40 rounded border border-white/5">
+                  {(['gemini', 'openai', 'mock'] as AIProviderId[]).map(p => (
+                    <button 
+                      key={p} 
+                      onClick={() => setSettings({...settings, aiProvider: p})} 
+                      className={`py-1.5 text-[9px] rounded uppercase font-bold transition-all ${(settings.aiProvider || 'gemini') === p ? 'bg-primary text-[#04110c] shadow-lg shadow-primary/20' : 'text-gray-500 hover:text-white'}`}
+                    >
+                      {p}
+                    </button>
+                  ))}
+                </div>
+                {settings.aiProvider === 'openai' && (
+                  <div className="space-y-2">
+                    <input 
+                      type="url" 
+                      value={settings.openAICompatible?.baseUrl ?? DEFAULT_OPENAI_CONFIG.baseUrl} 
+                      onChange={e => setSettings({...settings, openAICompatible: { ...DEFAULT_OPENAI_CONFIG, ...settings.openAICompatible, baseUrl: e.target.value }})} 
+                      placeholder="Base URL" 
+                      className="w-full bg-black/40 border border-white/5 rounded px-3 py-2 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-primary/50"
+                    />
+                    <input 
+                      type="text" 
+                      value={settings.openAICompatible?.model ?? DEFAULT_OPENAI_CONFIG.model} 
+                      onChange={e => setSettings({...settings, openAICompatible: { ...DEFAULT_OPENAI_CONFIG, ...settings.openAICompatible, model: e.target.value }})} 
+                      placeholder="Model" 
+                      className="w-full bg-black/40 border border-white/5 rounded px-3 py-2 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-primary/50"
+                    />
+                    <input 
+                      type="password" 
+                      value={openAIApiKey} 
+                      onChange={e => { setOpenAIApiKeyInput(e.target.value); setOpenAIApiKey(e.target.value); }} 
+                      placeholder="API Key (optional for local servers)" 
+                      className="w-full bg-black/40 border border-white/5 rounded px-3 py-2 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-primary/50"
+                    />
+                  </div>
+                )}
+                <p className="text-[9px] text-gray-500 font-mono">
+                  {settings.aiProvider === 'openai' ? 'Key is stored on this device only. No search, maps or live sessions.' : settings.aiProvider === 'mock' ? 'Canned offline responses for testing.' : 'Full feature set.'}
+                </p>
               </section>
 
               {/* Optics Control Section */}
@@ -927,6 +1963,30 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              {/* Live Recordings Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Radio size={12}/> Live Recordings</label>
+                <div className="grid grid-cols-2 gap-1 p-1 bg-black/40 rounded border border-white/5">
+                  {(['local', 'cloud'] as const).map(target => (
+                    <button 
+                      key={target} 
+                      onClick={() => setSettings({...settings, liveRecordingStorage: target})} 
+                      disabled={target === 'cloud' && !user}
+                      className={`py-1.5 text-[9px] rounded uppercase font-bold transition-all disabled:opacity-30 ${(settings.liveRecordingStorage || 'local') === target ? 'bg-primary text-[#04110c] shadow-lg shadow-primary/20' : 'text-gray-500 hover:text-white'}`}
+                    >
+                      {target === 'local' ? 'This Device' : 'Cloud'}
+                    </button>
+                  ))}
+                </div>
+                <button 
+                  onClick={() => { setShowLiveRecordings(true); setShowSettings(false); }}
+                  className="w-full py-2.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold uppercase tracking-widest hover:bg-white/10 transition-all flex items-center justify-center gap-2"
+                >
+                  <PlayCircle size={14}/> Browse Recordings
+                </button>
+                <p className="text-[9px] text-gray-500 font-mono">Sessions recorded with the REC button in Live mode. Cloud needs sign-in.</p>
+              </section>
+
               {/* Cloud Sync Section */}
               <section className="space-y-3">
                 <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Globe size={12}/> Cloud Sync</label>
@@ -998,7 +2058,9 @@ const App: React.FC = () => {
                 <div className="w-2.5 h-2.5 rounded-full bg-primary animate-ping absolute"></div>
                 <div className="w-2.5 h-2.5 rounded-full bg-primary relative"></div>
              </div>
-             <span className="text-[10px] font-mono font-bold tracking-[0.2em] text-primary">SYSTEM ACTIVE // MONITORING CYCLE {settings.intervalHours}H</span>
+             <span className="text-[10px] font-mono font-bold tracking-[0.2em] text-primary">
+               SYSTEM ACTIVE // {nextCaptureAt ? `NEXT CAPTURE ${new Date(nextCaptureAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'NO CAPTURES SCHEDULED'}
+             </span>
           </div>
         </div>
       )}
@@ -1024,14 +2086,92 @@ const App: React.FC = () => {
           >
             <LiveAudio 
               ref={liveAudioRef}
-              onClose={() => setLiveMode(false)} 
+              onClose={() => { flushLiveTurn(); setLiveMode(false); }} 
               onCapture={handleManualCapture} 
-              onTranscript={(t, u) => setChatMessages(p => [...p, {id: Date.now().toString(), role: u ? 'user' : 'model', text: t, timestamp: Date.now()}])} 
+              onTranscript={handleLiveTranscript} 
+              tools={liveTools}
+              context={liveContext}
+              recordingStorage={user ? settings.liveRecordingStorage || 'local' : 'local'}
+              onRecordingComplete={handleLiveRecording}
             />
           </motion.div>
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {selectedImage && (
+          <SnapshotViewer 
+            image={images.find(img => img.id === selectedImage.id) || selectedImage} 
+            sequence={playbackSequence} 
+            playing={playbackMode} 
+            alignProgress={alignProgress} 
+            onSelect={img => { setPlaybackMode(false); setSelectedImage(img); }} 
+            onTogglePlay={() => setPlaybackMode(!playbackMode)} 
+            onAlign={() => handleAlignFrames(playbackPlantId)} 
+            roi={findPlant(plants, selectedImage.plantId)?.roi} 
+            onSaveRoi={findPlant(plants, selectedImage.plantId) ? (roi => handleSavePlantRoi(selectedImage.plantId!, roi)) : undefined} 
+            onSaveLabel={label => handleLabelSnapshot(images.find(img => img.id === selectedImage.id) || selectedImage, label)} 
+            onDiagnose={() => { setPlaybackMode(false); setDiagnosisImageId(selectedImage.id); }} 
+            onClose={() => { setPlaybackMode(false); setSelectedImage(null); }} 
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {diagnosisImage && (
+          <HeatmapDiagnostic 
+            image={diagnosisImage} 
+            subject={findPlant(plants, diagnosisImage.plantId)?.species || findPlant(plants, diagnosisImage.plantId)?.name || settings.plantType} 
+            diagnosing={diagnosingId === diagnosisImage.id} 
+            onDiagnose={() => handleDiagnoseSnapshot(diagnosisImage)} 
+            onClose={() => setDiagnosisImageId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showLabelAccuracy && (
+          <LabelAccuracyPanel 
+            loadSnapshots={loadAllSnapshots} 
+            onClose={() => setShowLabelAccuracy(false)}
+          />
+        )}
+        {showLiveRecordings && (
+          <LiveRecordingsPanel 
+            uid={user?.uid || null} 
+            onClose={() => setShowLiveRecordings(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showReports && (
+          <ReportsPanel 
+            reports={reports} 
+            images={images} 
+            plants={plants} 
+            activePlantId={settings.activePlantId} 
+            generating={isGeneratingReport} 
+            onGenerate={handleGenerateReport} 
+            onDelete={handleDeleteReport} 
+            speakingId={speakingMessageId} 
+            onSpeak={(digest: GrowthReport) => handleSpeak(digestToSpeech(digest), digest.id)} 
+            onClose={() => setShowReports(false)} 
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showTimelapseExport && (
+          <TimelapseExporter 
+            images={images} 
+            plants={plants} 
+            settings={settings} 
+            onClose={() => setShowTimelapseExport(false)} 
+          />
+        )}
+      </AnimatePresence>
+
       {/* Logout Confirmation Modal */}
       <AnimatePresence>
         {showLogoutConfirm && (
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 import { CapturedImage } from '../types';
+import { toGrowthSeries } from '../services/growthMetrics';
 
 interface GrowthChartProps {
   images: CapturedImage[];
@@ -10,10 +11,12 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
   const svgRef = useRef<SVGSVGElement>(null);
 
   useEffect(() => {
-    if (!svgRef.current || images.length < 2) return;
+    if (!svgRef.current) return;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll('*').remove();
+    const data = toGrowthSeries(images);
+    if (data.length < 2) return;
 
     const margin = { top: 20, right: 30, bottom: 30, left: 40 };
     const width = svgRef.current.clientWidth - margin.left - margin.right;
@@ -23,20 +26,13 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
       .append('g')
       .attr('transform', `translate(${margin.left},${margin.top})`);
 
-    const data = images
-      .filter(img => img.confidence !== undefined)
-      .map(img => ({
-        date: new Date(img.timestamp),
-        confidence: img.confidence || 0,
-        health: img.healthStatus === 'HEALTHY' ? 100 : img.healthStatus === 'STRESSED' ? 50 : 20
-      }));
-
     const x = d3.scaleTime()
       .domain(d3.extent(data, d => d.date) as [Date, Date])
       .range([0, width]);
 
+    // Percent axis with headroom above the largest value so small plants stay readable
     const y = d3.scaleLinear()
-      .domain([0, 100])
+      .domain([0, Math.min(100, (d3.max(data, d => Math.max(d.canopy, d.greenness)) || 0) * 1.2 || 100)])
       .range([height, 0]);
 
     // Grid lines
@@ -67,10 +63,10 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
       .style('font-size', '8px')
       .style('font-family', 'monospace');
 
-    // Confidence Line
+    // Canopy Line
     const line = d3.line<any>()
       .x(d => x(d.date))
-      .y(d => y(d.confidence))
+      .y(d => y(d.canopy))
       .curve(d3.curveMonotoneX);
 
     g.append('path')
@@ -81,17 +77,19 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
       .attr('d', line)
       .style('filter', 'drop-shadow(0 0 4px rgba(132, 204, 22, 0.4))');
 
-    // Health Area
-    const area = d3.area<any>()
+    // Greenness Line
+    const greenLine = d3.line<any>()
       .x(d => x(d.date))
-      .y0(height)
-      .y1(d => y(d.health))
+      .y(d => y(d.greenness))
       .curve(d3.curveMonotoneX);
 
     g.append('path')
       .datum(data)
-      .attr('fill', 'rgba(132, 204, 22, 0.1)')
-      .attr('d', area);
+      .attr('fill', 'none')
+      .attr('stroke', '#3b82f6')
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', '4,3')
+      .attr('d', greenLine);
 
     // Dots
     g.selectAll('.dot')
@@ -99,7 +97,7 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
       .enter()
       .append('circle')
       .attr('cx', d => x(d.date))
-      .attr('cy', d => y(d.confidence))
+      .attr('cy', d => y(d.canopy))
       .attr('r', 3)
       .attr('fill', '#84cc16')
       .attr('stroke', '#000')
@@ -110,9 +108,9 @@ const GrowthChart: React.FC<GrowthChartProps> = ({ images }) => {
   return (
     <div className="w-full h-[200px] relative">
       <svg ref={svgRef} className="w-full h-full" />
-      {images.length < 2 && (
+      {images.filter(img => img.growthMetrics).length < 2 && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/20 backdrop-blur-[2px] rounded-lg">
-          <p className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Insufficient Data for Neural Projection</p>
+          <p className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Insufficient Measured Frames</p>
         </div>
       )}
     </div>
@@ -1,113 +1,220 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CapturedImage, DiagnosisRegion } from '../types';
+import { getSnapshotSrc } from '../services/snapshotStorage';
+import { formatTimestamp } from '../services/timelapse';
+import { X, AlertTriangle, BrainCircuit, Cpu, RefreshCw, CheckCircle } from 'lucide-react';
+
+interface HeatmapDiagnosticProps {
+  image: CapturedImage;
+  subject?: string; // Plant name or species shown in the readout
+  diagnosing: boolean;
+  onDiagnose: () => void;
+  onClose: () => void;
+}
+
+const SEVERITY_RGB: Record<DiagnosisRegion['severity'], string> = {
+  high: '255, 113, 108',
+  medium: '255, 115, 81',
+  low: '234, 179, 8'
+};
+
+const regionCenter = (region: DiagnosisRegion) => region.box
+  ? { x: region.box.x + region.box.width / 2, y: region.box.y + region.box.height / 2 }
+  : region.point!;
+
+/**
+ * One radial glow per region, sized to its box. Stacked gradients with a
+ * screen blend read as a heatmap over the photo.
+ */
+const heatmapBackground = (regions: DiagnosisRegion[], activeIndex: number | null) => regions.map((region, i) => {
+  const { x, y } = regionCenter(region);
+  const radius = region.box ? Math.max(region.box.width, region.box.height) * 70 : 8;
+  const alpha = activeIndex === null || activeIndex === i ? 0.5 : 0.15;
+  return `radial-gradient(circle at ${x * 100}% ${y * 100}%, rgba(${SEVERITY_RGB[region.severity]}, ${alpha}) 0%, transparent ${Math.max(radius, 6)}%)`;
+}).join(', ');
+
+export const HeatmapDiagnostic: React.FC<HeatmapDiagnosticProps> = ({ image, subject, diagnosing, onDiagnose, onClose }) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const diagnosis = image.diagnosis;
+  const regions = diagnosis?.regions || [];
+  const worst = regions.some(r => r.severity === 'high') ? 'high' : regions.some(r => r.severity === 'medium') ? 'medium' : regions.length ? 'low' : null;
 
-export const HeatmapDiagnostic: React.FC = () => {
   return (
-    <div className="relative h-[80vh] w-full overflow-hidden flex flex-col rounded-[2.5rem] -mt-6">
-      {/* Camera Viewport (Live Feed Background) */}
-      <div className="absolute inset-0 z-0">
-        <img alt="Healthy Monstera Deliciosa plant leaves" className="w-full h-full object-cover" src="https://lh3.googleusercontent.com/aida-public/AB6AXuCMFIK1YbAhC8VnIZCIZH6OOB6phEQeic_bc8r_gZ2Ij-Zf4zXLgGRlbWqqvIti91DCE7JkUI3WtpOCbuznQvAAkkAdXfdc_czJ-WlX5rMQR0X3jMCe1ngDTCMfvDlooiHVcu4lPV9w-ONDttvg5HGDeg1MJ5zALoX0B7rMoDwyk4FnPy6xfePQ7ldtjJSEz5T8tOJDXlnYRt7YKv2hOdQ4eOggsB77Xi5_UST3O5NZF1OM3knScrR6QLg9xBOTFK0N-1E-egohphAg"/>
-        {/* Diagnostic Heatmap Overlay */}
-        <div className="absolute inset-0" style={{
-          background: 'radial-gradient(circle at 40% 60%, rgba(255, 115, 81, 0.4) 0%, transparent 35%), radial-gradient(circle at 70% 30%, rgba(213, 61, 24, 0.3) 0%, transparent 40%)',
-          mixBlendMode: 'screen'
-        }}></div>
-        {/* Scanner Scanning Line effect (Static placeholder for design) */}
-        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-primary/5 to-transparent h-1 w-full top-1/2 -translate-y-1/2"></div>
-      </div>
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={onClose}>
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={e => e.stopPropagation()}
+        className="bg-[#04110c] border border-primary/30 rounded-[2.5rem] max-w-3xl w-full max-h-[90vh] overflow-y-auto custom-scrollbar shadow-[0_0_50px_rgba(192,254,113,0.1)]"
+      >
+        {/* Snapshot with evidence overlay */}
+        <div className="relative bg-black">
+          <img src={getSnapshotSrc(image)} alt="Diagnosed snapshot" draggable={false} className="w-full h-auto block" />
+          {regions.length > 0 && (
+            <div className="absolute inset-0 pointer-events-none" style={{ background: heatmapBackground(regions, activeIndex), mixBlendMode: 'screen' }}></div>
+          )}
+          {regions.map((region, i) => {
+            const color = `rgb(${SEVERITY_RGB[region.severity]})`;
+            const dimmed = activeIndex !== null && activeIndex !== i;
+            return region.box ? (
+              <div
+                key={i}
+                onMouseEnter={() => setActiveIndex(i)}
+                onMouseLeave={() => setActiveIndex(null)}
+                className={`absolute border-2 rounded-md transition-opacity ${dimmed ? 'opacity-30' : 'opacity-100'}`}
+                style={{ left: `${region.box.x * 100}%`, top: `${region.box.y * 100}%`, width: `${region.box.width * 100}%`, height: `${region.box.height * 100}%`, borderColor: color }}
+              >
+                <span className="absolute -top-5 left-0 px-1.5 rounded text-[9px] font-mono font-bold text-black whitespace-nowrap" style={{ backgroundColor: color }}>
+                  {i + 1} {region.label}
+                </span>
+              </div>
+            ) : (
+              <div
+                key={i}
+                onMouseEnter={() => setActiveIndex(i)}
+                onMouseLeave={() => setActiveIndex(null)}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 transition-opacity ${dimmed ? 'opacity-30' : 'opacity-100'}`}
+                style={{ left: `${region.point!.x * 100}%`, top: `${region.point!.y * 100}%` }}
+              >
+                <span className="relative flex h-4 w-4">
+                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full opacity-75" style={{ backgroundColor: color }}></span>
+                  <span className="relative inline-flex rounded-full h-4 w-4 items-center justify-center text-[8px] font-mono font-bold text-black" style={{ backgroundColor: color }}>{i + 1}</span>
+                </span>
+              </div>
+            );
+          })}
+          {diagnosing && (
+            <motion.div
+              className="absolute left-0 right-0 h-1 bg-gradient-to-r from-transparent via-primary to-transparent shadow-[0_0_20px_rgba(184,253,75,0.8)] pointer-events-none"
+              initial={{ top: '0%' }}
+              animate={{ top: ['0%', '100%', '0%'] }}
+              transition={{ duration: 3, repeat: Infinity, ease: 'linear' }}
+            />
+          )}
 
-      {/* UI Content Layer */}
-      <div className="relative z-10 flex-1 flex flex-col justify-between p-6">
-        {/* Top Interface Elements */}
-        <div className="flex justify-between items-start">
-          {/* XAI Badge */}
-          <div className="flex flex-col gap-2">
-            <div className="inline-flex items-center gap-3 bg-surface-container-lowest/60 backdrop-blur-md px-4 py-2 rounded-full border border-outline-variant/20 shadow-lg group">
+          <div className="absolute top-4 left-4 flex flex-col gap-2">
+            <div className="inline-flex items-center gap-3 bg-surface-container-lowest/60 backdrop-blur-md px-4 py-2 rounded-full border border-outline-variant/20 shadow-lg">
               <span className="relative flex h-3 w-3">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
+                {diagnosing && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>}
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-primary shadow-[0_0_8px_rgba(184,253,75,0.8)]"></span>
               </span>
-              <span className="font-label text-xs font-bold text-on-surface tracking-wider uppercase">Gemma XAI Scan Active</span>
+              <span className="font-label text-xs font-bold text-on-surface tracking-wider uppercase">
+                {diagnosing ? 'Gemma XAI Scan Active' : diagnosis ? 'Gemma XAI Scan Complete' : 'No Diagnosis Yet'}
+              </span>
             </div>
-            {/* Metadata Readout */}
-            <div className="mt-2 space-y-1">
-              <div className="flex items-center gap-2 bg-black/30 backdrop-blur-sm px-3 py-1 rounded-md w-fit">
-                <span className="text-[10px] font-label text-secondary opacity-60 uppercase">LAT:</span>
-                <span className="text-[10px] font-label text-on-surface">51.5074° N</span>
-              </div>
+            <div className="flex items-center gap-2 bg-black/30 backdrop-blur-sm px-3 py-1 rounded-md w-fit">
+              <span className="text-[10px] font-label text-secondary opacity-60 uppercase">Captured:</span>
+              <span className="text-[10px] font-label text-on-surface">{formatTimestamp(image.timestamp, 'both')}</span>
+            </div>
+            {subject && (
               <div className="flex items-center gap-2 bg-black/30 backdrop-blur-sm px-3 py-1 rounded-md w-fit">
-                <span className="text-[10px] font-label text-secondary opacity-60 uppercase">SPEC:</span>
-                <span className="text-[10px] font-label text-on-surface italic">M. Deliciosa</span>
+                <span className="text-[10px] font-label text-secondary opacity-60 uppercase">Spec:</span>
+                <span className="text-[10px] font-label text-on-surface italic">{subject}</span>
               </div>
-            </div>
+            )}
           </div>
 
-          {/* Live Indicators */}
-          <div className="flex flex-col items-end gap-2">
-            <div className="bg-error/20 border border-error/30 backdrop-blur-md px-3 py-1 rounded-full flex items-center gap-2">
-              <span className="material-symbols-outlined text-error text-sm">warning</span>
-              <span className="font-label text-[10px] font-bold text-error uppercase">Stress Detected</span>
-            </div>
-            <div className="bg-surface-container-low/40 backdrop-blur-md p-3 rounded-2xl border border-outline-variant/10">
-              <div className="text-[10px] font-label text-on-surface-variant uppercase mb-1">Confidence Score</div>
-              <div className="text-xl font-headline font-extrabold text-primary">94.2%</div>
+          {diagnosis && (
+            <div className="absolute top-4 right-4 flex flex-col items-end gap-2">
+              {worst ? (
+                <div className="bg-error/20 border border-error/30 backdrop-blur-md px-3 py-1 rounded-full flex items-center gap-2">
+                  <AlertTriangle size={12} className="text-error" />
+                  <span className="font-label text-[10px] font-bold text-error uppercase">{regions.length} Region{regions.length === 1 ? '' : 's'} // {worst}</span>
+                </div>
+              ) : (
+                <div className="bg-primary/20 border border-primary/30 backdrop-blur-md px-3 py-1 rounded-full flex items-center gap-2">
+                  <CheckCircle size={12} className="text-primary" />
+                  <span className="font-label text-[10px] font-bold text-primary uppercase">No Findings</span>
+                </div>
+              )}
+              {diagnosis.confidence !== undefined && (
+                <div className="bg-surface-container-low/60 backdrop-blur-md p-3 rounded-2xl border border-outline-variant/10 text-right">
+                  <div className="text-[10px] font-label text-on-surface-variant uppercase mb-1">Confidence Score</div>
+                  <div className="text-xl font-headline font-extrabold text-primary">{diagnosis.confidence}%</div>
+                </div>
+              )}
             </div>
-          </div>
+          )}
+          <button onClick={onClose} className="absolute bottom-4 right-4 p-2 rounded-full bg-black/60 text-gray-300 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
         </div>
 
-        {/* Evidence Panel (Bottom Aligned Glassmorphism) */}
-        <div className="w-full max-w-2xl mx-auto space-y-4">
-          {/* Floating Detail Markers (Asymmetric) */}
-          <div className="relative w-full h-40 hidden sm:block">
-            <div className="absolute left-[15%] top-0 flex items-center gap-3">
-              <div className="w-px h-16 bg-gradient-to-t from-primary/80 to-transparent"></div>
-              <div className="bg-surface-container-high/80 backdrop-blur-md p-3 rounded-xl border border-primary/20 max-w-[180px]">
-                <p className="text-[10px] font-label text-primary uppercase font-bold mb-1">Lower Petiole Analysis</p>
-                <p className="text-xs text-on-surface-variant leading-tight italic">Structural softening observed. Density down 14%.</p>
-              </div>
-            </div>
-          </div>
-
-          {/* Main Diagnosis Card */}
-          <div className="bg-surface-container-low/60 backdrop-blur-2xl rounded-[2.5rem] p-8 border border-outline-variant/10 shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
-            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
-              <div className="flex-1">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                    <span className="material-symbols-outlined text-primary">neurology</span>
+        <div className="p-6 space-y-5">
+          {regions.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Evidence</h4>
+              {regions.map((region, i) => (
+                <div
+                  key={i}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  onMouseLeave={() => setActiveIndex(null)}
+                  className={`flex gap-3 p-3 rounded-xl border transition-colors ${activeIndex === i ? 'bg-white/5 border-white/20' : 'bg-black/40 border-white/5'}`}
+                >
+                  <span className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-mono font-bold text-black shrink-0" style={{ backgroundColor: `rgb(${SEVERITY_RGB[region.severity]})` }}>{i + 1}</span>
+                  <div className="min-w-0">
+                    <p className="text-[10px] font-label uppercase tracking-wider text-primary font-bold">{region.label} // {region.category} // {region.severity}</p>
+                    {region.evidence && <p className="text-xs text-on-surface-variant leading-tight italic">{region.evidence}</p>}
                   </div>
-                  <h2 className="font-headline text-xl font-bold text-on-surface">Human-Readable Insight</h2>
                 </div>
-                <p className="text-on-surface-variant font-body text-lg leading-relaxed">
-                  <span className="text-on-surface font-semibold">Turgor pressure loss</span> detected in lower petioles consistent with <span className="text-primary underline decoration-primary/30 underline-offset-4">under-watering</span>. Vascular flow shows localized obstruction near leaf base nodes.
-                </p>
-              </div>
-              <div className="flex flex-col gap-3 min-w-[200px]">
-                <button className="group relative bg-primary text-on-primary font-headline font-bold py-4 px-8 rounded-full flex items-center justify-center gap-2 hover:shadow-[0_0_25px_rgba(184,253,75,0.4)] transition-all active:scale-95 overflow-hidden">
-                  <span className="relative z-10">Full Report</span>
-                  <span className="material-symbols-outlined relative z-10 transition-transform group-hover:translate-x-1">arrow_forward</span>
-                  {/* Inner Glow */}
-                  <div className="absolute inset-0 bg-gradient-to-tr from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity"></div>
-                </button>
-                <button className="bg-surface-container-highest/60 hover:bg-surface-container-highest border border-outline-variant/30 text-on-surface font-label font-bold text-xs uppercase tracking-widest py-3 px-8 rounded-full transition-colors">
-                  Dismiss Scan
-                </button>
+              ))}
+            </section>
+          )}
+
+          <div className="bg-surface-container-low/60 rounded-[2rem] p-6 border border-outline-variant/10 space-y-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <BrainCircuit size={18} className="text-primary" />
               </div>
+              <h2 className="font-headline text-xl font-bold text-on-surface">Human-Readable Insight</h2>
             </div>
+            {diagnosis ? (
+              <>
+                {diagnosis.primaryCause && (
+                  <p className="text-sm text-on-surface">Most likely cause: <span className="text-primary font-semibold">{diagnosis.primaryCause}</span></p>
+                )}
+                <p className="text-on-surface-variant font-body leading-relaxed">{diagnosis.summary}</p>
+                {diagnosis.recommendations.length > 0 && (
+                  <ul className="space-y-1.5">
+                    {diagnosis.recommendations.map((rec, i) => (
+                      <li key={i} className="text-sm text-gray-300 pl-3 border-l-2 border-primary/60">{rec}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            ) : (
+              <p className="text-on-surface-variant font-body leading-relaxed">
+                Run a diagnosis to locate signs of disease, pests or nutrient problems on this snapshot. The evidence is saved with it.
+              </p>
+            )}
 
-            {/* Subtle Footer Data */}
-            <div className="mt-8 pt-6 border-t border-outline-variant/10 flex justify-between items-center text-[10px] font-label text-on-surface-variant uppercase tracking-widest">
-              <div className="flex gap-4">
-                <span>Rel Humidity: 54%</span>
-                <span>Temp: 22.4°C</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <span className="material-symbols-outlined text-[10px]">schedule</span>
-                <span>Last Full Scan: 14m ago</span>
-              </div>
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <button
+                onClick={onDiagnose}
+                disabled={diagnosing}
+                className="flex-1 bg-primary text-on-primary font-headline font-bold py-3 px-8 rounded-full flex items-center justify-center gap-2 hover:shadow-[0_0_25px_rgba(184,253,75,0.4)] transition-all active:scale-95 disabled:opacity-50"
+              >
+                {diagnosing ? <><Cpu size={16} className="animate-spin" /> Diagnosing...</> : diagnosis ? <><RefreshCw size={16} /> Re-run Diagnosis</> : 'Run Diagnosis'}
+              </button>
+              <button
+                onClick={onClose}
+                className="bg-surface-container-highest/60 hover:bg-surface-container-highest border border-outline-variant/30 text-on-surface font-label font-bold text-xs uppercase tracking-widest py-3 px-8 rounded-full transition-colors"
+              >
+                Dismiss Scan
+              </button>
             </div>
+
+            {diagnosis && (
+              <div className="pt-4 border-t border-outline-variant/10 flex justify-between items-center text-[10px] font-label text-on-surface-variant uppercase tracking-widest">
+                <span>Provider: {diagnosis.provider}</span>
+                <span>Diagnosed: {formatTimestamp(diagnosis.diagnosedAt, 'both')}</span>
+              </div>
+            )}
           </div>
         </div>
-      </div>
+      </motion.div>
     </div>
   );
 };
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CapturedImage } from '../types';
+import {
+  HEALTH_LABELS, Agreement, computeLabelAccuracy, selectDatasetSnapshots, datasetToCsv, buildDatasetZip, downloadBlob
+} from '../services/labelDataset';
+import { Target, X, Download, FileText, Cpu } from 'lucide-react';
+
+interface LabelAccuracyPanelProps {
+  loadSnapshots: () => Promise<CapturedImage[]>; // Full history, not just the loaded page
+  onClose: () => void;
+}
+
+const percent = ({ compared, agreed }: Agreement) => compared > 0 ? `${Math.round((agreed / compared) * 100)}%` : '--';
+
+const Toggle = ({ label, value, onChange }: { label: string; value: boolean; onChange: (v: boolean) => void }) => (
+  <div className="flex items-center justify-between p-3 bg-black/40 rounded border border-white/5">
+    <span className="text-[11px] font-bold text-gray-300">{label}</span>
+    <button
+      onClick={() => onChange(!value)}
+      className={`w-9 h-5 rounded-full relative transition-all duration-300 ${value ? 'bg-primary shadow-[0_0_12px_rgba(192,254,113,0.4)]' : 'bg-gray-700'}`}
+    >
+      <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${value ? 'right-1' : 'left-1'}`}></div>
+    </button>
+  </div>
+);
+
+const LabelAccuracyPanel: React.FC<LabelAccuracyPanelProps> = ({ loadSnapshots, onClose }) => {
+  const [snapshots, setSnapshots] = useState<CapturedImage[] | null>(null);
+  const [includeUnreviewed, setIncludeUnreviewed] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSnapshots().then(setSnapshots).catch(e => {
+      console.error("Failed to load snapshots:", e);
+      setError("Failed to load snapshots.");
+      setSnapshots([]);
+    });
+  }, []);
+
+  const accuracy = useMemo(() => computeLabelAccuracy(snapshots || []), [snapshots]);
+  const dataset = useMemo(() => selectDatasetSnapshots(snapshots || [], includeUnreviewed), [snapshots, includeUnreviewed]);
+
+  const exportCsv = () => {
+    downloadBlob(new Blob([datasetToCsv(dataset)], { type: 'text/csv' }), `gemma_dataset_${Date.now()}.csv`);
+  };
+
+  const exportZip = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      const { blob, skipped } = await buildDatasetZip(dataset, setProgress);
+      downloadBlob(blob, `gemma_dataset_coco_${Date.now()}.zip`);
+      if (skipped > 0) setError(`${skipped} snapshot${skipped === 1 ? '' : 's'} without image data were left out.`);
+    } catch (e: any) {
+      console.error("Dataset export failed:", e);
+      setError(e.message || "Dataset export failed.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-[#04110c] border border-primary/30 p-6 rounded-3xl max-w-md w-full shadow-[0_0_50px_rgba(192,254,113,0.1)] space-y-5 max-h-[90vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-primary">
+            <div className="p-3 bg-primary/10 rounded-full">
+              <Target size={24} />
+            </div>
+            <h3 className="text-lg font-bold font-headline tracking-tight">Label Accuracy</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        {snapshots === null ? (
+          <p className="text-[10px] font-label text-gray-500 text-center uppercase tracking-widest py-6 flex items-center justify-center gap-2">
+            <Cpu size={12} className="animate-spin" /> Loading Snapshots
+          </p>
+        ) : (
+          <>
+            <section className="space-y-2">
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  ['Reviewed', String(accuracy.labeled)],
+                  ['Health', percent(accuracy.health)],
+                  ['Stage', percent(accuracy.stage)],
+                  ['Tags', accuracy.tags.compared > 0 ? `${Math.round(accuracy.tags.meanOverlap * 100)}%` : '--']
+                ].map(([label, value]) => (
+                  <div key={label} className="p-2 bg-black/40 rounded border border-white/5">
+                    <p className="text-[9px] font-mono text-gray-500 uppercase tracking-widest">{label}</p>
+                    <p className="text-sm font-bold text-white">{value}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] font-mono text-gray-500">
+                AI AGREEMENT WITH REVIEWERS // CLOUD {percent(accuracy.bySource.cloud)} ({accuracy.bySource.cloud.compared}) // ON-DEVICE {percent(accuracy.bySource.local)} ({accuracy.bySource.local.compared}){accuracy.bySource.mock.compared > 0 && ` // MOCK ${percent(accuracy.bySource.mock)} (${accuracy.bySource.mock.compared})`}
+              </p>
+            </section>
+
+            {accuracy.health.compared > 0 && (
+              <section className="space-y-2">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Health Confusion // AI ↓ Reviewer →</label>
+                <div className="grid grid-cols-4 gap-1 text-center text-[10px] font-mono">
+                  <div />
+                  {HEALTH_LABELS.map(h => <div key={h} className="text-gray-500 py-1">{h.slice(0, 4)}</div>)}
+                  {HEALTH_LABELS.map(ai => (
+                    <React.Fragment key={ai}>
+                      <div className="text-gray-500 py-1.5 text-left">{ai.slice(0, 4)}</div>
+                      {HEALTH_LABELS.map(human => {
+                        const n = accuracy.confusion[ai][human];
+                        return (
+                          <div
+                            key={human}
+                            className={`py-1.5 rounded ${n === 0 ? 'bg-black/40 text-gray-600' : ai === human ? 'bg-primary/20 text-primary font-bold' : 'bg-error/20 text-error font-bold'}`}
+                          >
+                            {n}
+                          </div>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section className="space-y-3">
+              <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Export Dataset</label>
+              <Toggle label="Include Unreviewed AI Labels" value={includeUnreviewed} onChange={setIncludeUnreviewed} />
+              <p className="text-[10px] font-mono text-gray-500">{dataset.length} snapshots // reviewer labels override AI output</p>
+
+              {error && <p className="text-xs text-error font-mono">{error}</p>}
+
+              {progress !== null ? (
+                <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={exportCsv}
+                    disabled={dataset.length === 0}
+                    className="py-2.5 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold uppercase tracking-widest hover:bg-white/10 transition-all font-label flex items-center justify-center gap-2 disabled:opacity-30"
+                  >
+                    <FileText size={12} /> CSV Manifest
+                  </button>
+                  <button
+                    onClick={exportZip}
+                    disabled={dataset.length === 0}
+                    className="py-2.5 bg-primary text-[#04110c] rounded-full text-[10px] font-bold uppercase tracking-widest hover:scale-105 transition-all font-label flex items-center justify-center gap-2 disabled:opacity-30 disabled:hover:scale-100"
+                  >
+                    <Download size={12} /> COCO + Images
+                  </button>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default LabelAccuracyPanel;
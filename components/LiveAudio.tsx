@@ -1,23 +1,35 @@
 import React, { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { motion } from 'framer-motion';
-import { connectToLiveAPI, createPcmBlob, decodeAudio, decodeAudioData, blobToBase64 } from '../services/geminiService';
-import { Mic, MicOff, Activity, X, Video, Camera, SwitchCamera, MessageSquare } from 'lucide-react';
+import { createPcmBlob, decodeAudio, decodeAudioData, blobToBase64, LiveContext, LiveToolHandlers } from '../services/geminiService';
+import { CameraFacing, LiveToolName } from '../services/aiProvider';
+import { LiveRecorder, LiveSessionArchive, createLiveRecorder, isArchiveEmpty, MIC_SAMPLE_RATE } from '../services/liveRecorder';
+import { LiveConnectionStatus, ResilientLiveSession, openResilientLiveSession } from '../services/liveConnection';
+import { SamplerStats, UplinkStats, createFrameSampler, frameSignature, SAMPLE_TICK_MS, SIGNATURE_WIDTH, SIGNATURE_HEIGHT } from '../services/frameSampler';
+import { LiveRecordingStorage } from '../types';
+import { Mic, MicOff, Activity, X, Video, Camera, SwitchCamera, MessageSquare, Circle, Square } from 'lucide-react';
 
 interface LiveAudioProps {
   onClose: () => void;
   onCapture: () => void;
   onTranscript: (text: string, isUser: boolean) => void;
+  tools?: LiveToolHandlers; // App-level tools; capture and camera switching are added here
+  context?: LiveContext; // Plant history given to the model when the session opens
+  recordingStorage?: LiveRecordingStorage; // Shown next to the record button
+  onRecordingComplete?: (archive: LiveSessionArchive) => void;
 }
 
 export interface LiveAudioHandle {
   capture: () => string | null;
 }
 
-const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapture, onTranscript }, ref) => {
-  const [isConnected, setIsConnected] = useState(false);
+const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapture, onTranscript, tools, context, recordingStorage = 'local', onRecordingComplete }, ref) => {
+  const [connection, setConnection] = useState<LiveConnectionStatus>({ state: 'connecting', attempt: 0, resumed: false });
   const [error, setError] = useState<string | null>(null);
-  const [facingMode, setFacingMode] = useState<'user'|'environment'>('user');
+  const [facingMode, setFacingMode] = useState<CameraFacing>('user');
   const [transcripts, setTranscripts] = useState<{text: string, isUser: boolean}[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [frameStats, setFrameStats] = useState<SamplerStats | null>(null);
+  const [uplinkStats, setUplinkStats] = useState<UplinkStats | null>(null);
   
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -26,12 +38,24 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const visualizerCanvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<ResilientLiveSession | null>(null);
+  // Decides which camera frames are worth sending, within the measured uplink capacity
+  const [sampler] = useState(() => createFrameSampler(() => sessionRef.current?.getUplink().capacity));
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement>(null);
   const nextStartTimeRef = useRef(0);
   const animationFrameRef = useRef<number>(0);
   const videoIntervalRef = useRef<number>(0);
   const streamRef = useRef<MediaStream | null>(null);
   const transcriptsRef = useRef<HTMLDivElement>(null);
+  const facingModeRef = useRef<CameraFacing>('user');
+  const toolsRef = useRef<LiveToolHandlers>({});
+  const recorderRef = useRef<LiveRecorder | null>(null);
+  const recordingCompleteRef = useRef(onRecordingComplete);
+  recordingCompleteRef.current = onRecordingComplete;
+
+  const isConnected = connection.state === 'connected';
+  const isReconnecting = connection.state === 'reconnecting';
 
   useImperativeHandle(ref, () => ({
     capture: () => {
@@ -50,10 +74,27 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
     }
   }));
 
-  const FRAME_RATE = 1; // Frames per second to send to Gemini (bandwidth optimization)
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    const archive = recorder.finish();
+    if (!isArchiveEmpty(archive)) recordingCompleteRef.current?.(archive);
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      stopRecording();
+    } else {
+      recorderRef.current = createLiveRecorder();
+      setIsRecording(true);
+    }
+  };
 
   // Internal transcript handler to update UI state
   const handleTranscript = (text: string, isUser: boolean) => {
+    recorderRef.current?.addTranscript(text, isUser);
     setTranscripts(prev => [...prev.slice(-4), { text, isUser }]); // Keep last 5
     onTranscript(text, isUser); // Propagate to main app
     
@@ -70,7 +111,7 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
         }
 
         const stream = await navigator.mediaDevices.getUserMedia({ 
-            video: { facingMode: facingMode, width: { ideal: 640 }, height: { ideal: 480 } },
+            video: { facingMode: facingModeRef.current, width: { ideal: 640 }, height: { ideal: 480 } },
             audio: true 
         });
         
@@ -92,11 +133,37 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
         }
         return null;
     }
-  }, [facingMode]);
+  }, []);
+
+  // Swaps only the video track, so the live session and mic keep running
+  const switchCamera = async (facing?: CameraFacing) => {
+      const next = facing || (facingModeRef.current === 'user' ? 'environment' : 'user');
+      const stream = streamRef.current;
+      if (!stream || next === facingModeRef.current) return next;
+
+      const videoStream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: next, width: { ideal: 640 }, height: { ideal: 480 } }
+      });
+      stream.getVideoTracks().forEach(t => { t.stop(); stream.removeTrack(t); });
+      videoStream.getVideoTracks().forEach(t => stream.addTrack(t));
+      if (videoRef.current) videoRef.current.srcObject = stream;
 
-  const switchCamera = () => {
-      setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
-      // The useEffect dependency on facingMode will trigger restart
+      facingModeRef.current = next;
+      setFacingMode(next);
+      return next;
+  };
+
+  // Handlers are looked up at call time, so the session never sees stale app state
+  toolsRef.current = {
+      ...tools,
+      captureSnapshot: async () => {
+          onCapture();
+          return { result: "Snapshot captured successfully." };
+      },
+      switchCamera: async ({ facing }) => {
+          const next = await switchCamera(facing);
+          return { result: `Using the ${next === 'user' ? 'front' : 'back'} camera.`, facing: next };
+      }
   };
 
   // Visualization
@@ -146,6 +213,7 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
       const currentTime = outputAudioContextRef.current.currentTime;
       const startTime = Math.max(currentTime, nextStartTimeRef.current);
       source.start(startTime);
+      recorderRef.current?.addModelAudio(base64, Date.now() + (startTime - currentTime) * 1000);
       nextStartTimeRef.current = startTime + audioBuffer.duration;
     } catch (e) {
       console.error("Audio decode error", e);
@@ -158,6 +226,10 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
     const initSession = async () => {
       const stream = await startStream();
       if (!stream) return;
+      if (cleanup) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
 
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       inputAudioContextRef.current = new AudioContextClass({ sampleRate: 16000 });
@@ -168,72 +240,99 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
       analyserRef.current.connect(outputAudioContextRef.current.destination);
       drawVisualizer();
 
-      const sessionPromise = connectToLiveAPI(
-        handleAudioData,
-        () => { if(!cleanup) setIsConnected(false); },
-        (err) => { console.error(err); setError("Connection failed"); },
-        handleTranscript,
-        onCapture
-      );
-
-      sessionPromise.then(session => {
-         if (cleanup) return;
-         sessionRef.current = session;
-         setIsConnected(true);
-         
-         // Setup Audio Input Stream
-         if (inputAudioContextRef.current) {
-            const source = inputAudioContextRef.current.createMediaStreamSource(stream);
-            const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            processor.onaudioprocess = (e) => {
-                if (!sessionRef.current) return;
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                session.sendRealtimeInput({ audio: pcmBlob });
-            };
-            
-            source.connect(processor);
-            processor.connect(inputAudioContextRef.current.destination);
-         }
-
-         // Setup Video Frame Loop
-         videoIntervalRef.current = window.setInterval(async () => {
-             if (!videoRef.current || !canvasRef.current || !sessionRef.current) return;
-             
-             const video = videoRef.current;
-             const canvas = canvasRef.current;
-             const ctx = canvas.getContext('2d');
-             
-             if (ctx && video.readyState === video.HAVE_ENOUGH_DATA) {
-                 canvas.width = video.videoWidth * 0.5; // Downscale for bandwidth
-                 canvas.height = video.videoHeight * 0.5;
-                 ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                 
-                 canvas.toBlob(async (blob) => {
-                    if (blob) {
-                        const base64 = await blobToBase64(blob);
-                        session.sendRealtimeInput({ 
-                            video: { mimeType: 'image/jpeg', data: base64 } 
-                        });
-                    }
-                 }, 'image/jpeg', 0.6);
-             }
-         }, 1000 / FRAME_RATE);
+      const session = openResilientLiveSession({
+        onAudioData: handleAudioData,
+        onTranscript: handleTranscript,
+        tools: Object.fromEntries((Object.keys(toolsRef.current) as LiveToolName[]).map(name =>
+          [name, (args: any) => (toolsRef.current[name] as (args: any) => Promise<any>)(args)]
+        )) as LiveToolHandlers,
+        context,
+        onStatus: (status) => { if (!cleanup) setConnection(status); },
+        onFailed: (err) => {
+          console.error("Live session failed:", err);
+          if (!cleanup) setError(/API Key|not available/i.test(err?.message || '') ? err.message : "Connection lost");
+        }
       });
+      sessionRef.current = session;
+
+      // Setup Audio Input Stream; the session buffers it while (re)connecting
+      const source = inputAudioContextRef.current.createMediaStreamSource(stream);
+      const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
+      processorRef.current = processor;
+
+      processor.onaudioprocess = (e) => {
+          const inputData = e.inputBuffer.getChannelData(0);
+          const pcmBlob = createPcmBlob(inputData);
+          const durationMs = inputData.length / MIC_SAMPLE_RATE * 1000;
+          session.sendAudio(pcmBlob, durationMs);
+          recorderRef.current?.addMicAudio(pcmBlob.data, durationMs);
+      };
+
+      source.connect(processor);
+      processor.connect(inputAudioContextRef.current.destination);
+
+      // Setup Video Frame Loop: check often, send only when the sampler says so
+      let encoding = false;
+      let statsAt = 0;
+      videoIntervalRef.current = window.setInterval(() => {
+          if (recorderRef.current?.isFull()) stopRecording();
+          const now = Date.now();
+          if (now - statsAt >= 1000) {
+              statsAt = now;
+              setFrameStats(sampler.getStats(now));
+              setUplinkStats(session.getUplink());
+          }
+          if (encoding || !videoRef.current || !canvasRef.current || !signatureCanvasRef.current) return;
+
+          const video = videoRef.current;
+          if (video.readyState !== video.HAVE_ENOUGH_DATA) return;
+          const sigCtx = signatureCanvasRef.current.getContext('2d', { willReadFrequently: true });
+          const ctx = canvasRef.current.getContext('2d');
+          if (!sigCtx || !ctx) return;
+
+          sigCtx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+          const signature = frameSignature(sigCtx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT));
+          if (!sampler.shouldSend(signature, now)) return;
+
+          const canvas = canvasRef.current;
+          canvas.width = video.videoWidth * 0.5; // Downscale for bandwidth
+          canvas.height = video.videoHeight * 0.5;
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+          encoding = true;
+          canvas.toBlob(async (blob) => {
+             try {
+                 if (!blob) return;
+                 const base64 = await blobToBase64(blob);
+                 if (session.sendVideo({ mimeType: 'image/jpeg', data: base64 })) {
+                     sampler.recordSent(signature, blob.size);
+                     recorderRef.current?.addFrame(base64);
+                 }
+             } finally {
+                 encoding = false;
+             }
+          }, 'image/jpeg', 0.6);
+      }, SAMPLE_TICK_MS);
     };
 
     initSession();
 
     return () => {
       cleanup = true;
+      stopRecording();
+      sessionRef.current?.close();
+      sessionRef.current = null;
+      if (processorRef.current) {
+        processorRef.current.onaudioprocess = null;
+        processorRef.current.disconnect();
+      }
       cancelAnimationFrame(animationFrameRef.current);
       clearInterval(videoIntervalRef.current);
       if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
       if (inputAudioContextRef.current) inputAudioContextRef.current.close();
       if (outputAudioContextRef.current) outputAudioContextRef.current.close();
     };
-  }, [facingMode]);
+  }, []);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md">
@@ -254,10 +353,21 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
                     <Video size={20} className="text-cyber-accent" /> VIDEO LINK
                 </h2>
                 <div className="flex items-center gap-2 mt-1">
-                    <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-cyber-success animate-pulse' : 'bg-red-500'}`}></div>
+                    <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-cyber-success animate-pulse' : isReconnecting ? 'bg-yellow-500 animate-pulse' : 'bg-red-500'}`}></div>
                     <span className="text-[10px] font-mono text-gray-400">
-                        {isConnected ? `CONNECTED // ${facingMode.toUpperCase()}` : error || "INITIALIZING..."}
+                        {error || (isConnected
+                          ? `CONNECTED // ${facingMode.toUpperCase()}${connection.resumed ? ' // RESUMED' : ''}`
+                          : isReconnecting ? `RECONNECTING // ATTEMPT ${connection.attempt}` : "INITIALIZING...")}
                     </span>
+                    {isConnected && frameStats && (
+                        <span className="text-[10px] font-mono text-cyber-accent" title={`${frameStats.skipped} near-identical frames skipped, video ${(frameStats.bytesPerSecond / 1024).toFixed(0)} KB/s`}>
+                            // VIDEO {frameStats.fps.toFixed(1)} FPS {frameStats.mode.toUpperCase()}
+                            {uplinkStats && ` // UP ${(uplinkStats.bytesPerSecond / 1024).toFixed(0)} KB/S`}
+                        </span>
+                    )}
+                    {isRecording && (
+                        <span className="text-[10px] font-mono text-red-500 animate-pulse">// REC {recordingStorage.toUpperCase()}</span>
+                    )}
                 </div>
              </div>
              {isConnected && (
@@ -275,6 +385,13 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
              </button>
         </div>
 
+        {isReconnecting && !error && (
+            <div className="relative z-10 mx-auto flex items-center gap-2 px-4 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-full backdrop-blur-md">
+                <Activity size={12} className="text-yellow-500 animate-pulse" />
+                <span className="text-[10px] font-mono text-yellow-500 uppercase tracking-widest">Link dropped // reconnecting, mic is buffered</span>
+            </div>
+        )}
+
         {/* Transcriptions Overlay */}
         <div className="relative z-10 flex-1 flex flex-col justify-end p-6 pointer-events-none">
             <div ref={transcriptsRef} className="max-h-48 overflow-y-auto space-y-2 mb-4 custom-scrollbar mask-gradient-top">
@@ -290,7 +407,7 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
 
         {/* Controls Footer */}
         <div className="relative z-10 p-6 flex justify-center items-center gap-6 bg-gradient-to-t from-black/90 to-transparent pointer-events-auto">
-             <button onClick={switchCamera} className="p-3 rounded-full bg-cyber-800 border border-cyber-700 text-white hover:border-cyber-accent transition-all group">
+             <button onClick={() => switchCamera().catch(e => { console.error("Camera switch failed", e); setError("Camera switch failed"); })} className="p-3 rounded-full bg-cyber-800 border border-cyber-700 text-white hover:border-cyber-accent transition-all group">
                 <SwitchCamera size={24} className="group-hover:rotate-180 transition-transform duration-500"/>
              </button>
              
@@ -304,9 +421,19 @@ const LiveAudio = forwardRef<LiveAudioHandle, LiveAudioProps>(({ onClose, onCapt
              <button onClick={onCapture} className="p-3 rounded-full bg-cyber-800 border border-cyber-700 text-white hover:bg-white hover:text-black transition-all" title="Capture Frame">
                 <Camera size={24} />
              </button>
+
+             <button
+                onClick={toggleRecording}
+                disabled={!isConnected}
+                className={`p-3 rounded-full border transition-all disabled:opacity-40 ${isRecording ? 'bg-red-500/20 border-red-500 text-red-500' : 'bg-cyber-800 border-cyber-700 text-white hover:border-red-500'}`}
+                title={isRecording ? 'Stop Recording' : `Record Session (${recordingStorage})`}
+             >
+                {isRecording ? <Square size={24} fill="currentColor" /> : <Circle size={24} className="text-red-500" fill="currentColor" />}
+             </button>
         </div>
 
         <canvas ref={canvasRef} className="hidden" />
+        <canvas ref={signatureCanvasRef} width={SIGNATURE_WIDTH} height={SIGNATURE_HEIGHT} className="hidden" />
       </div>
     </div>
   );
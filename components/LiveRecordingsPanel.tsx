@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { LiveRecording } from '../types';
+import { listLiveRecordings, deleteLiveRecording } from '../services/liveRecordings';
+import { formatTimestamp } from '../services/timelapse';
+import LiveReplay from './LiveReplay';
+import { Radio, X, Cpu, Trash2, Cloud, HardDrive, Play } from 'lucide-react';
+
+interface LiveRecordingsPanelProps {
+  uid: string | null;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const LiveRecordingsPanel: React.FC<LiveRecordingsPanelProps> = ({ uid, onClose }) => {
+  const [recordings, setRecordings] = useState<LiveRecording[] | null>(null);
+  const [selected, setSelected] = useState<LiveRecording | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listLiveRecordings(uid).then(setRecordings).catch(e => {
+      console.error("Failed to load recordings:", e);
+      setError("Failed to load recordings.");
+      setRecordings([]);
+    });
+  }, [uid]);
+
+  const remove = async (recording: LiveRecording) => {
+    setPendingDeleteId(null);
+    try {
+      await deleteLiveRecording(recording);
+      setRecordings(prev => (prev || []).filter(r => r.id !== recording.id || r.storage !== recording.storage));
+    } catch (e) {
+      console.error("Failed to delete recording:", e);
+      setError("Failed to delete recording.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-[#04110c] border border-primary/30 p-6 rounded-3xl max-w-md w-full shadow-[0_0_50px_rgba(192,254,113,0.1)] space-y-5 max-h-[90vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-primary">
+            <div className="p-3 bg-primary/10 rounded-full">
+              <Radio size={24} />
+            </div>
+            <h3 className="text-lg font-bold font-headline tracking-tight">Live Recordings</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        {error && <p className="text-xs text-error font-mono">{error}</p>}
+
+        {selected ? (
+          <LiveReplay recording={selected} onBack={() => setSelected(null)} />
+        ) : recordings === null ? (
+          <p className="text-[10px] font-label text-gray-500 text-center uppercase tracking-widest py-6 flex items-center justify-center gap-2">
+            <Cpu size={12} className="animate-spin" /> Loading Recordings
+          </p>
+        ) : recordings.length === 0 ? (
+          <p className="text-[10px] font-mono text-gray-500 text-center py-6">NO RECORDINGS YET // USE THE RECORD BUTTON DURING A LIVE SESSION</p>
+        ) : (
+          <div className="space-y-2">
+            {recordings.map(recording => (
+              <div key={`${recording.storage}-${recording.id}`} className="flex items-center gap-3 p-3 bg-black/40 rounded-xl border border-white/5">
+                <button onClick={() => setSelected(recording)} className="flex-1 min-w-0 text-left group">
+                  <p className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2">
+                    {recording.storage === 'cloud' ? <Cloud size={10} /> : <HardDrive size={10} />}
+                    {formatTimestamp(recording.startedAt, 'both')} // {formatDuration(recording.durationMs)}
+                  </p>
+                  <p className="text-xs text-on-surface truncate group-hover:text-primary transition-colors">
+                    {recording.preview || `${recording.frameCount} frames, no transcript`}
+                  </p>
+                </button>
+                {pendingDeleteId === recording.id ? (
+                  <button onClick={() => remove(recording)} className="px-2 py-1 rounded bg-error/20 text-error text-[9px] font-bold uppercase tracking-widest">
+                    Delete
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => setSelected(recording)} className="p-1.5 text-primary hover:scale-110 transition-transform" title="Replay">
+                      <Play size={14} fill="currentColor" />
+                    </button>
+                    <button onClick={() => setPendingDeleteId(recording.id)} className="p-1.5 text-gray-500 hover:text-error transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default LiveRecordingsPanel;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LiveRecording } from '../types';
+import { LiveSessionArchive, renderArchiveAudio, indexAtTime } from '../services/liveRecorder';
+import { loadLiveArchive } from '../services/liveRecordings';
+import { formatTimestamp } from '../services/timelapse';
+import { ChevronLeft, Cpu, Video } from 'lucide-react';
+
+interface LiveReplayProps {
+  recording: LiveRecording;
+  onBack: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Plays a recorded Live session. The mixed audio track is the clock; the
+ * frame and highlighted transcript line follow its position, and clicking a
+ * line seeks to it.
+ */
+const LiveReplay: React.FC<LiveReplayProps> = ({ recording, onBack }) => {
+  const [archive, setArchive] = useState<LiveSessionArchive | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    loadLiveArchive(recording).then(loaded => {
+      if (cancelled) return;
+      url = URL.createObjectURL(renderArchiveAudio(loaded));
+      setArchive(loaded);
+      setAudioUrl(url);
+    }).catch(e => {
+      console.error("Failed to load recording:", e);
+      if (!cancelled) setError(e.message || "Failed to load recording.");
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [recording.id]);
+
+  // timeupdate fires too rarely for smooth frames, so follow playback per animation frame while it plays
+  const rafRef = useRef(0);
+  const syncPosition = () => {
+    if (audioRef.current) setPosition(audioRef.current.currentTime * 1000);
+  };
+  const startFollowing = () => {
+    cancelAnimationFrame(rafRef.current);
+    const tick = () => {
+      syncPosition();
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  };
+  const stopFollowing = () => {
+    cancelAnimationFrame(rafRef.current);
+    syncPosition();
+  };
+  useEffect(() => () => cancelAnimationFrame(rafRef.current), []);
+
+  const frameIndex = archive ? indexAtTime(archive.frames, position) : -1;
+  const lineIndex = archive ? indexAtTime(archive.transcripts, position) : -1;
+
+  useEffect(() => {
+    const line = linesRef.current?.children[lineIndex] as HTMLElement | undefined;
+    line?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [lineIndex]);
+
+  const seek = (t: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = t / 1000;
+    audioRef.current.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onBack} className="flex items-center gap-1 text-[10px] font-mono text-gray-500 uppercase tracking-widest hover:text-white transition-colors">
+        <ChevronLeft size={12} /> All Recordings
+      </button>
+      <p className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+        {formatTimestamp(recording.startedAt, 'both')} // {formatClock(recording.durationMs)} // {recording.storage}
+      </p>
+
+      {error ? (
+        <p className="text-xs text-error font-mono">{error}</p>
+      ) : !archive || !audioUrl ? (
+        <p className="text-[10px] font-label text-gray-500 text-center uppercase tracking-widest py-6 flex items-center justify-center gap-2">
+          <Cpu size={12} className="animate-spin" /> Loading Recording
+        </p>
+      ) : (
+        <>
+          <div className="relative aspect-[4/3] bg-black rounded-2xl overflow-hidden border border-white/5">
+            {frameIndex >= 0 ? (
+              <img src={`data:image/jpeg;base64,${archive.frames[frameIndex].data}`} alt="Session frame" className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-gray-600"><Video size={32} /></div>
+            )}
+            <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-mono text-white">
+              {formatClock(position)} / {formatClock(archive.durationMs)}
+            </span>
+          </div>
+
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            onPlay={startFollowing}
+            onPause={stopFollowing}
+            onEnded={stopFollowing}
+            onSeeked={syncPosition}
+            className="w-full h-10"
+          />
+
+          <div ref={linesRef} className="max-h-48 overflow-y-auto space-y-1.5 custom-scrollbar">
+            {archive.transcripts.length === 0 && (
+              <p className="text-[10px] font-mono text-gray-500 text-center py-4">NO TRANSCRIPT RECORDED</p>
+            )}
+            {archive.transcripts.map((line, i) => (
+              <button
+                key={i}
+                onClick={() => seek(line.t)}
+                className={`w-full text-left px-3 py-2 rounded border transition-colors ${i === lineIndex ? 'bg-primary/10 border-primary/30' : 'bg-black/40 border-white/5 hover:border-white/20'}`}
+              >
+                <span className="text-[9px] font-mono text-gray-500 mr-2">{formatClock(line.t)} {line.isUser ? 'YOU' : 'GEMMA'}</span>
+                <span className={`text-xs ${line.isUser ? 'text-secondary' : 'text-on-surface'}`}>{line.text.trim()}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LiveReplay;
@@ -3,22 +3,52 @@ import { motion } from 'framer-motion';
 import { CapturedImage, ChatMessage } from '../types';
 import CameraFeed from './CameraFeed';
 import Timeline from './Timeline';
+import GrowthChart from './GrowthChart';
 import Markdown from 'react-markdown';
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { getActionableReminders, SNOOZE_OPTIONS_HOURS } from '../services/careReminders';
+import { groupImagesByPlant, filterImagesByPlant, isUnassigned, UNASSIGNED_PLANT_ID, PLANT_PHOTO_SIZE } from '../services/plants';
+import { fileToDataUrl, resizeImage } from '../services/imageUtils';
+import { searchConversations } from '../services/conversations';
+import { ChatAttachment, MAX_CHAT_ATTACHMENTS, fileAttachment, snapshotAttachment, toggleAttachment } from '../services/chatAttachments';
+import { getSnapshotThumbnail } from '../services/snapshotStorage';
+import { getTrustedHealth, needsReview } from '../services/confidence';
 import { 
   Leaf, Play, Square, MessageSquare, MapPin, Globe, BrainCircuit, Volume2,
   Clock, Eye, FileText, PlayCircle, EyeOff, Trash2, AlertTriangle, Activity,
-  Terminal, Settings, Camera, FastForward, Cpu, Sun, Power, LogOut, X, Droplet, Zap, BookOpen, CheckCircle
+  Terminal, Settings, Camera, FastForward, Cpu, Sun, Power, LogOut, X, Droplet, Zap, BookOpen, CheckCircle,
+  AlarmClock, Scissors, FlaskConical, ClipboardList, Sprout, Plus, ImagePlus, Film, Target, Crosshair, Ruler, History, Search, Paperclip, Upload, ImageOff
 } from 'lucide-react';
 
-export const HomeTab = ({ images, active, setActive, settings, setSettings }: any) => {
-  const healthyCount = images.filter((img: any) => img.healthStatus === 'HEALTHY').length;
-  const totalWithStatus = images.filter((img: any) => img.healthStatus).length;
+const CARE_ICONS: Record<string, any> = {
+  water: Droplet,
+  fertilize: FlaskConical,
+  prune: Scissors,
+  custom: ClipboardList
+};
+
+export const HomeTab = ({ 
+  images, active, setActive, settings, setSettings, careActions = [], onCompleteReminder, onSnoozeReminder,
+  alerts = [], plants = [], onAcknowledgeAlert, onSelectImage, onLabelSnapshot
+}: any) => {
+  const careTasks = getActionableReminders(settings.careReminders);
+  const openAlerts = alerts.filter((a: any) => !a.acknowledged);
+  const findImage = (id: string) => images.find((img: any) => img.id === id);
+
+  // Unreviewed low-confidence analyses are left out; reviewer labels take precedence
+  const threshold = settings.minConfidenceThreshold;
+  const reviewQueue = images.filter((img: any) => needsReview(img, threshold));
+  const trusted = images
+    .filter((img: any) => !needsReview(img, threshold))
+    .map((img: any) => ({ ...img, healthStatus: getTrustedHealth(img, threshold) }));
+
+  const healthyCount = trusted.filter((img: any) => img.healthStatus === 'HEALTHY').length;
+  const totalWithStatus = trusted.filter((img: any) => img.healthStatus).length;
   const healthScore = totalWithStatus > 0 ? Math.round((healthyCount / totalWithStatus) * 100) : 100;
-  const stressedPlants = images.filter((img: any) => img.healthStatus === 'STRESSED' || img.healthStatus === 'CRITICAL');
+  const stressedPlants = trusted.filter((img: any) => img.healthStatus === 'STRESSED' || img.healthStatus === 'CRITICAL');
   
   // Prepare chart data
-  const chartData = [...images].reverse().slice(-10).map((img: any, i: number) => ({
+  const chartData = [...trusted].reverse().slice(-10).map((img: any, i: number) => ({
     name: i.toString(),
     score: img.healthStatus === 'HEALTHY' ? 100 : (img.healthStatus === 'STRESSED' ? 50 : (img.healthStatus === 'CRITICAL' ? 10 : 80))
   }));
@@ -76,6 +106,150 @@ export const HomeTab = ({ images, active, setActive, settings, setSettings }: an
         </section>
       )}
 
+      {/* Care Reminders */}
+      {(careTasks.length > 0 || careActions.length > 0) && (
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-headline text-2xl font-bold tracking-tight text-primary">Care Schedule</h2>
+            <span className={`px-3 py-1 rounded-full text-xs font-bold font-label ${careTasks.some((t: any) => t.state === 'overdue') ? 'bg-error/20 text-error' : 'bg-primary/20 text-primary'}`}>
+              {careTasks.filter((t: any) => t.state !== 'upcoming').length} Due
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {careTasks.map(({ reminder, state }: any) => {
+              const Icon = CARE_ICONS[reminder.type] || ClipboardList;
+              return (
+                <div key={reminder.id} className="bg-surface-container-low p-5 rounded-3xl flex items-center gap-4 border border-white/5">
+                  <div className={`w-12 h-12 rounded-2xl flex items-center justify-center ${state === 'overdue' ? 'bg-error/10 text-error' : state === 'due' ? 'bg-tertiary/10 text-tertiary' : 'bg-primary/10 text-primary'}`}>
+                    <Icon size={24} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-label text-xs uppercase tracking-wider text-secondary opacity-70">
+                      {state === 'upcoming' ? 'Due' : state} // {new Date(reminder.nextDue).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                    <h3 className="font-headline font-bold text-on-surface truncate">{reminder.title}</h3>
+                    <div className="flex gap-1 mt-2">
+                      {SNOOZE_OPTIONS_HOURS.map(h => (
+                        <button 
+                          key={h}
+                          onClick={() => onSnoozeReminder?.(reminder, h)}
+                          className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-label font-bold text-gray-500 border border-white/10 hover:text-white transition-colors"
+                          title={`Snooze ${h}h`}
+                        >
+                          <AlarmClock size={10} /> {h}H
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <button 
+                    onClick={() => onCompleteReminder?.(reminder)}
+                    className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center hover:bg-primary/20 active:scale-95 transition-all"
+                    title="Mark Done"
+                  >
+                    <CheckCircle size={20} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          {careActions.length > 0 && (
+            <div className="bg-surface-container-low p-5 rounded-3xl border border-white/5 space-y-2">
+              <p className="font-label text-[10px] uppercase tracking-widest text-secondary font-semibold">Care History</p>
+              {careActions.slice(0, 5).map((action: any) => {
+                const Icon = CARE_ICONS[action.type] || ClipboardList;
+                return (
+                  <div key={`${action.id}-${action.timestamp}`} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-on-surface"><Icon size={14} className="text-primary" /> {action.title}</span>
+                    <span className="text-[10px] font-label text-gray-500">{new Date(action.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      )}
+
+      {openAlerts.length > 0 && (
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-headline text-2xl font-bold tracking-tight text-primary">Anomaly Alerts</h2>
+            <span className="px-3 py-1 rounded-full text-xs font-bold font-label bg-error/20 text-error">{openAlerts.length} New</span>
+          </div>
+          <div className="space-y-3">
+            {openAlerts.slice(0, 5).map((alert: any) => {
+              const plant = plants.find((p: any) => p.id === alert.plantId);
+              return (
+                <div key={alert.id} className={`bg-surface-container-low p-5 rounded-3xl flex items-center gap-4 border ${alert.severity === 'critical' ? 'border-error/30' : 'border-tertiary/30'}`}>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {[alert.beforeSnapshotId, alert.afterSnapshotId].map((id: string, i: number) => {
+                      const img = findImage(id);
+                      return img ? (
+                        <button key={id} onClick={() => onSelectImage?.(img)} title={i === 0 ? 'Before' : 'After'}>
+                          <img src={getSnapshotThumbnail(img)} alt={i === 0 ? 'Before' : 'After'} className="w-12 h-12 object-cover rounded-xl border border-white/10 hover:border-primary/50 transition-colors" />
+                        </button>
+                      ) : (
+                        <div key={id} className="w-12 h-12 rounded-xl bg-black/40 border border-white/5 flex items-center justify-center text-gray-600" title="Snapshot not loaded">
+                          <ImageOff size={14} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`font-label text-xs uppercase tracking-wider ${alert.severity === 'critical' ? 'text-error' : 'text-tertiary'}`}>
+                      {alert.kind.replace('_', ' ')}{plant ? ` // ${plant.name}` : ''}
+                    </p>
+                    <h3 className="font-headline font-bold text-on-surface text-sm">{alert.message}</h3>
+                    <p className="text-[10px] font-label text-gray-500">{new Date(alert.detectedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+                  </div>
+                  <button 
+                    onClick={() => onAcknowledgeAlert?.(alert.id)}
+                    className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center hover:bg-primary/20 active:scale-95 transition-all shrink-0"
+                    title="Acknowledge"
+                  >
+                    <CheckCircle size={20} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {reviewQueue.length > 0 && (
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-headline text-2xl font-bold tracking-tight text-primary">Needs Review</h2>
+            <span className="px-3 py-1 rounded-full text-xs font-bold font-label bg-tertiary/20 text-tertiary">{reviewQueue.length} Below {threshold}%</span>
+          </div>
+          <div className="space-y-3">
+            {reviewQueue.slice(0, 5).map((img: any) => (
+              <div key={img.id} className="bg-surface-container-low p-5 rounded-3xl flex items-center gap-4 border border-white/5">
+                <button onClick={() => onSelectImage?.(img)} className="shrink-0">
+                  <img src={getSnapshotThumbnail(img)} alt="Snapshot" className="w-14 h-14 object-cover rounded-xl border border-white/10 hover:border-primary/50 transition-colors" />
+                </button>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <p className="font-label text-xs uppercase tracking-wider text-secondary opacity-70">
+                    AI: {img.healthStatus} // {img.confidence}%{img.reanalyzed ? ' // RE-ANALYZED' : ''}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {(['HEALTHY', 'STRESSED', 'CRITICAL'] as const).map(status => (
+                      <button 
+                        key={status}
+                        onClick={() => onLabelSnapshot?.(img, { ...img.humanLabel, healthStatus: status })}
+                        className={`px-2 py-0.5 rounded-full text-[9px] font-label font-bold border transition-colors ${status === img.healthStatus ? 'border-primary/40 text-primary hover:bg-primary/10' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                        title={status === img.healthStatus ? 'Confirm AI label' : `Correct to ${status}`}
+                      >
+                        {status === img.healthStatus ? `CONFIRM ${status}` : status}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
       <section className="space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="font-headline text-2xl font-bold tracking-tight text-primary">Action Required</h2>
@@ -111,7 +285,7 @@ export const HomeTab = ({ images, active, setActive, settings, setSettings }: an
 
 export const ScanTab = ({ 
   cameraRef, isCameraEnabled, liveMode, setLiveMode, settings, setSettings, 
-  active, setActive, handleManualCapture, flash, images 
+  active, setActive, handleManualCapture, flash, images, plants = []
 }: any) => (
   <div className="flex flex-col items-center relative overflow-hidden animate-in fade-in duration-500">
     <div className="w-full max-w-md flex-grow flex flex-col items-center">
@@ -152,19 +326,53 @@ export const ScanTab = ({
           </div>
         </button>
       </div>
+      {plants.length > 0 && (
+        <div className="mt-6 flex items-center gap-3 bg-surface-container-low px-4 py-2 rounded-full border border-white/5">
+          <Sprout size={16} className="text-primary" />
+          <select 
+            value={settings.activePlantId || ''}
+            onChange={e => setSettings({...settings, activePlantId: e.target.value || undefined})}
+            className="bg-transparent text-xs font-label font-bold uppercase tracking-widest text-on-surface outline-none"
+          >
+            <option value="">Unassigned</option>
+            {plants.map((p: any) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
     </div>
   </div>
 );
 
-export const LibraryTab = ({ images }: any) => {
-  // Group images by plant type (mocked by using the first word of analysis or 'Unknown Specimen')
-  const plants = images.reduce((acc: any, img: any) => {
-    const nameMatch = img.analysis?.match(/([A-Z][a-z]+(?:\s[A-Z][a-z]+)*)/);
-    const name = nameMatch ? nameMatch[1] : 'Unknown Specimen';
-    if (!acc[name]) acc[name] = [];
-    acc[name].push(img);
-    return acc;
-  }, {});
+export const LibraryTab = ({ images, plants = [], activePlantId, onSelectPlant, onSavePlant, onDeletePlant }: any) => {
+  const [showForm, setShowForm] = React.useState(false);
+  const [draft, setDraft] = React.useState<{ name: string; species: string; location: string; acquired: string; photoUrl?: string }>({ name: '', species: '', location: '', acquired: '' });
+  const groups = groupImagesByPlant(images, plants);
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return;
+    try {
+      const photoUrl = await resizeImage(await fileToDataUrl(file), PLANT_PHOTO_SIZE);
+      setDraft(d => ({ ...d, photoUrl }));
+    } catch (e) {
+      console.error("Photo import failed:", e);
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    await onSavePlant({
+      name: draft.name,
+      species: draft.species.trim() || undefined,
+      location: draft.location.trim() || undefined,
+      acquiredAt: draft.acquired ? new Date(draft.acquired).getTime() : undefined,
+      photoUrl: draft.photoUrl
+    });
+    setDraft({ name: '', species: '', location: '', acquired: '' });
+    setShowForm(false);
+  };
 
   return (
     <div className="space-y-6 animate-in fade-in duration-500">
@@ -173,72 +381,323 @@ export const LibraryTab = ({ images }: any) => {
           <span className="font-label text-[10px] uppercase tracking-widest text-secondary font-semibold">Botanical Database</span>
           <h2 className="font-headline text-3xl font-extrabold text-primary">My Plants</h2>
         </div>
+        <button 
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-xs font-label font-bold uppercase tracking-widest hover:bg-primary/20 transition-colors"
+        >
+          {showForm ? <X size={14} /> : <Plus size={14} />} {showForm ? 'Cancel' : 'Add Plant'}
+        </button>
       </div>
+
+      {showForm && (
+        <form onSubmit={submit} className="bg-surface-container-low p-5 rounded-3xl border border-white/5 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input 
+            value={draft.name} 
+            onChange={e => setDraft({ ...draft, name: e.target.value })} 
+            placeholder="Name" 
+            required
+            className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white focus:outline-none focus:border-primary/50"
+          />
+          <input 
+            value={draft.species} 
+            onChange={e => setDraft({ ...draft, species: e.target.value })} 
+            placeholder="Species" 
+            className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white focus:outline-none focus:border-primary/50"
+          />
+          <input 
+            value={draft.location} 
+            onChange={e => setDraft({ ...draft, location: e.target.value })} 
+            placeholder="Location (e.g. Greenhouse B)" 
+            className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white focus:outline-none focus:border-primary/50"
+          />
+          <input 
+            type="date"
+            value={draft.acquired} 
+            onChange={e => setDraft({ ...draft, acquired: e.target.value })} 
+            className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white focus:outline-none focus:border-primary/50"
+          />
+          <label className="flex items-center gap-3 text-xs font-label text-secondary cursor-pointer">
+            <div className="w-12 h-12 rounded-xl overflow-hidden bg-black flex items-center justify-center border border-white/10">
+              {draft.photoUrl ? <img src={draft.photoUrl} alt="Plant" className="w-full h-full object-cover" /> : <ImagePlus size={18} className="text-primary/50" />}
+            </div>
+            Photo
+            <input type="file" accept="image/*" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+          </label>
+          <button type="submit" className="py-2 bg-primary text-on-primary rounded-full text-xs font-label font-bold uppercase tracking-widest hover:shadow-[0_0_20px_rgba(221,255,175,0.3)] transition-all">
+            Register Plant
+          </button>
+        </form>
+      )}
       
-      {Object.keys(plants).length === 0 ? (
+      {groups.length === 0 ? (
         <div className="bg-surface-container-low p-8 rounded-3xl border border-white/5 text-center space-y-4">
           <BookOpen size={48} className="mx-auto text-primary/20" />
           <p className="font-headline text-lg font-bold text-on-surface">Database Empty</p>
-          <p className="text-secondary text-sm">Scan plants to add them to your neural library.</p>
+          <p className="text-secondary text-sm">Register a plant, then scan it to build its neural record.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {Object.entries(plants).map(([name, imgs]: [string, any]) => (
-            <div key={name} className="bg-surface-container-low p-5 rounded-3xl border border-white/5 flex gap-4 hover:bg-surface-container transition-colors cursor-pointer">
-              <div className="w-24 h-24 rounded-2xl overflow-hidden bg-black flex-shrink-0">
-                <img src={imgs[0].dataUrl} alt={name} className="w-full h-full object-cover" />
-              </div>
-              <div className="flex flex-col justify-center">
-                <h3 className="font-headline font-bold text-lg text-on-surface">{name}</h3>
-                <p className="text-sm text-secondary">{imgs.length} observations</p>
-                <div className="mt-2 flex gap-2">
-                  <span className="px-2 py-1 bg-primary/10 text-primary text-[10px] font-bold rounded-full font-label uppercase">
-                    {imgs[0].healthStatus || 'UNKNOWN'}
-                  </span>
+          {groups.map(({ plant, images: imgs }: any) => {
+            const name = plant ? plant.name : 'Unassigned Snapshots';
+            const cover = plant?.photoUrl || (imgs[0] && getSnapshotThumbnail(imgs[0]));
+            const isActive = plant && plant.id === activePlantId;
+            return (
+              <div 
+                key={plant ? plant.id : UNASSIGNED_PLANT_ID} 
+                onClick={() => plant && onSelectPlant?.(plant.id)}
+                className={`bg-surface-container-low p-5 rounded-3xl border flex gap-4 hover:bg-surface-container transition-colors ${plant ? 'cursor-pointer' : ''} ${isActive ? 'border-primary/40' : 'border-white/5'}`}
+              >
+                <div className="w-24 h-24 rounded-2xl overflow-hidden bg-black flex-shrink-0 flex items-center justify-center">
+                  {cover ? <img src={cover} alt={name} className="w-full h-full object-cover" /> : <Sprout size={32} className="text-primary/30" />}
                 </div>
+                <div className="flex flex-col justify-center min-w-0 flex-1">
+                  <h3 className="font-headline font-bold text-lg text-on-surface truncate">{name}</h3>
+                  {plant?.species && <p className="text-xs text-secondary italic truncate">{plant.species}</p>}
+                  {(plant?.location || plant?.acquiredAt) && (
+                    <p className="text-[10px] font-label text-gray-500 uppercase tracking-wider truncate">
+                      {[plant.location, plant.acquiredAt && `Since ${new Date(plant.acquiredAt).toLocaleDateString()}`].filter(Boolean).join(' // ')}
+                    </p>
+                  )}
+                  <p className="text-sm text-secondary">{imgs.length} observations</p>
+                  <div className="mt-2 flex gap-2 items-center">
+                    <span className="px-2 py-1 bg-primary/10 text-primary text-[10px] font-bold rounded-full font-label uppercase">
+                      {imgs[0]?.healthStatus || 'UNKNOWN'}
+                    </span>
+                    {isActive && (
+                      <span className="px-2 py-1 bg-primary text-on-primary text-[10px] font-bold rounded-full font-label uppercase">Scanning</span>
+                    )}
+                  </div>
+                </div>
+                {plant && (
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onDeletePlant?.(plant.id); }}
+                    className="self-start text-gray-600 hover:text-error transition-colors"
+                    title="Remove Plant"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
   );
 };
 
-export const PlantsTab = ({ images, setSelectedImage, setPlaybackMode, deleteSnapshot }: any) => (
-  <div className="space-y-6 animate-in fade-in duration-500">
-    <div className="flex justify-between items-end mb-6">
-      <div className="space-y-1">
-        <span className="font-label text-[10px] uppercase tracking-widest text-secondary font-semibold">Botanical Archives</span>
-        <h2 className="font-headline text-3xl font-extrabold text-primary">Timeline</h2>
+export const PlantsTab = ({ images, plants = [], setSelectedImage, setPlaybackMode, deleteSnapshot, onExportTimelapse, onAlignFrames, alignProgress, onMeasureGrowth, measureProgress, minConfidence, onOpenLabelAccuracy }: any) => {
+  const [plantFilter, setPlantFilter] = React.useState<string | undefined>(undefined);
+  const hasUnassigned = images.some((img: any) => isUnassigned(img, plants));
+  const filtered = filterImagesByPlant(images, plantFilter, plants);
+  const measured = filtered.filter((img: any) => img.growthMetrics);
+  const first = measured[0]?.growthMetrics;
+  const latest = measured[measured.length - 1]?.growthMetrics;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex justify-between items-end mb-6">
+        <div className="space-y-1">
+          <span className="font-label text-[10px] uppercase tracking-widest text-secondary font-semibold">Botanical Archives</span>
+          <h2 className="font-headline text-3xl font-extrabold text-primary">Timeline</h2>
+        </div>
+        <div className="flex gap-2">
+          <button 
+            onClick={() => onAlignFrames?.(plantFilter)}
+            disabled={images.length < 2 || alignProgress !== null}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 text-secondary text-xs font-label font-bold uppercase tracking-widest hover:text-primary transition-colors disabled:opacity-30"
+          >
+            <Crosshair size={14} /> {alignProgress !== null ? `${Math.round(alignProgress * 100)}%` : 'Stabilize'}
+          </button>
+          <button 
+            onClick={onExportTimelapse}
+            disabled={images.length < 2}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-xs font-label font-bold uppercase tracking-widest hover:bg-primary/20 transition-colors disabled:opacity-30"
+          >
+            <Film size={14} /> Time-lapse
+          </button>
+          <button 
+            onClick={onOpenLabelAccuracy}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 text-secondary text-xs font-label font-bold uppercase tracking-widest hover:text-primary transition-colors"
+          >
+            <Target size={14} /> Labels
+          </button>
+        </div>
       </div>
+      {plants.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+          {[{ id: undefined, name: 'All' }, ...plants, ...(hasUnassigned ? [{ id: UNASSIGNED_PLANT_ID, name: 'Unassigned' }] : [])].map((p: any) => (
+            <button 
+              key={p.id || 'all'}
+              onClick={() => setPlantFilter(p.id)}
+              className={`px-3 py-1.5 rounded-full text-[10px] font-label font-bold uppercase tracking-widest whitespace-nowrap transition-colors ${plantFilter === p.id ? 'bg-primary text-on-primary' : 'bg-surface-container-low text-secondary hover:text-primary'}`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="bg-surface-container-low p-5 rounded-3xl border border-white/5">
+        <Timeline 
+          images={filtered} 
+          onSelect={(img: any) => { setPlaybackMode(false); setSelectedImage(img); }} 
+          onDelete={deleteSnapshot}
+          minConfidence={minConfidence}
+        />
+      </div>
+      <section className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="font-headline text-2xl font-bold tracking-tight text-primary">Growth Metrics</h2>
+          <button 
+            onClick={() => onMeasureGrowth?.(plantFilter)}
+            disabled={filtered.length === 0 || measureProgress !== null}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 text-secondary text-xs font-label font-bold uppercase tracking-widest hover:text-primary transition-colors disabled:opacity-30"
+          >
+            <Ruler size={14} /> {measureProgress !== null ? `${Math.round(measureProgress * 100)}%` : `Measure (${measured.length}/${filtered.length})`}
+          </button>
+        </div>
+        {latest && (
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Canopy', value: `${(latest.canopyArea * 100).toFixed(1)}%`, delta: first ? (latest.canopyArea - first.canopyArea) * 100 : 0, unit: 'pt' },
+              { label: 'Height', value: `${latest.heightPx}px`, delta: first ? latest.heightPx - first.heightPx : 0, unit: 'px' },
+              { label: 'Greenness', value: `${(latest.greenness * 100).toFixed(1)}%`, delta: first ? (latest.greenness - first.greenness) * 100 : 0, unit: 'pt' }
+            ].map(stat => (
+              <div key={stat.label} className="bg-surface-container-low p-4 rounded-2xl border border-white/5">
+                <p className="font-label text-[10px] uppercase tracking-widest text-secondary">{stat.label}</p>
+                <p className="font-headline text-xl font-bold text-on-surface">{stat.value}</p>
+                <p className={`text-[10px] font-mono ${stat.delta >= 0 ? 'text-primary' : 'text-error'}`}>
+                  {stat.delta >= 0 ? '+' : ''}{stat.delta.toFixed(stat.unit === 'px' ? 0 : 1)}{stat.unit}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="bg-surface-container-low p-5 rounded-3xl border border-white/5">
+          <GrowthChart images={filtered} />
+          <div className="flex gap-4 mt-2 text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-[#84cc16]"></span> Canopy %</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-[#3b82f6]"></span> Greenness %</span>
+          </div>
+        </div>
+      </section>
     </div>
-    <div className="bg-surface-container-low p-5 rounded-3xl border border-white/5">
-      <Timeline 
-        images={images} 
-        onSelect={(img: any) => { setPlaybackMode(false); setSelectedImage(img); }} 
-        onDelete={deleteSnapshot}
-      />
-    </div>
-  </div>
-);
+  );
+};
 
 export const ScheduleTab = ({ 
   chatMessages, userInput, setUserInput, handleChatSubmit, handleGenerateImage, 
-  isProcessing, useThinking, setUseThinking, useSearch, setUseSearch, useMaps, setUseMaps,
-  handleSpeak, speakingMessageId, generateGrowthReport, images
-}: any) => (
+  isProcessing, useThinking, setUseThinking, useSearch, setUseSearch, useMaps, setUseMaps, aiCapabilities,
+  handleSpeak, speakingMessageId, onOpenReports, images,
+  plants = [], conversations = [], activeConversationId, onNewConversation, onOpenConversation, onDeleteConversation,
+  chatAttachments = [], setChatAttachments, streamingMessage, onStopGeneration
+}: any) => {
+  const [showHistory, setShowHistory] = React.useState(false);
+  const [showPicker, setShowPicker] = React.useState(false);
+  const uploadRef = React.useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = React.useState<string | null>(null);
+  const snapshotById = new Map(images.map((img: any) => [img.id, img]));
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setUploadError(null);
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const attachment = await fileAttachment(file);
+        setChatAttachments((prev: ChatAttachment[]) => toggleAttachment(prev, attachment));
+      } catch (err) {
+        console.error("Attachment import failed:", file.name, err);
+        failed.push(file.name);
+      }
+    }
+    if (failed.length) setUploadError(`Could not read ${failed.join(', ')}.`);
+  };
+  const [historyQuery, setHistoryQuery] = React.useState('');
+  const activeConversation = conversations.find((c: any) => c.id === activeConversationId);
+  const matches = searchConversations(conversations, historyQuery);
+
+  return (
   <div className="flex flex-col min-h-[500px] animate-in fade-in duration-500 h-[calc(100vh-200px)]">
     <div className="flex-1 bg-surface-container-low border border-white/5 rounded-3xl flex flex-col overflow-hidden shadow-2xl">
-      <div className="p-4 bg-black/30 border-b border-white/5 font-label text-[10px] flex justify-between items-center uppercase tracking-[0.1em]">
-        <span className="text-gray-400 flex items-center gap-2"><Terminal size={12}/> Console // Gemma v3.1</span>
-        <button 
-          onClick={() => images.length > 0 && generateGrowthReport(images.map((i: any) => i.analysis || ""))} 
-          className="text-primary hover:text-primary-fixed flex items-center gap-1.5 transition-colors font-bold"
-        >
-          <FileText size={12}/> Gen Report
-        </button>
+      <div className="p-4 bg-black/30 border-b border-white/5 font-label text-[10px] flex justify-between items-center uppercase tracking-[0.1em] gap-3">
+        <span className="text-gray-400 flex items-center gap-2 min-w-0">
+          <Terminal size={12} className="shrink-0"/>
+          <span className="truncate">{activeConversation ? activeConversation.title : 'Console // Gemma v3.1'}</span>
+        </span>
+        <div className="flex items-center gap-3 shrink-0">
+          {onOpenConversation && (
+            <>
+              <button 
+                onClick={() => { onNewConversation(); setShowHistory(false); }} 
+                className="text-gray-400 hover:text-primary flex items-center gap-1.5 transition-colors font-bold"
+              >
+                <Plus size={12}/> New
+              </button>
+              <button 
+                onClick={() => setShowHistory(!showHistory)} 
+                className={`flex items-center gap-1.5 transition-colors font-bold ${showHistory ? 'text-primary' : 'text-gray-400 hover:text-primary'}`}
+              >
+                <History size={12}/> History
+              </button>
+            </>
+          )}
+          <button 
+            onClick={onOpenReports} 
+            className="text-primary hover:text-primary-fixed flex items-center gap-1.5 transition-colors font-bold"
+          >
+            <FileText size={12}/> Reports
+          </button>
+        </div>
       </div>
+      {showHistory ? (
+        <div className="flex-1 overflow-y-auto p-5 space-y-3 custom-scrollbar">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-3 text-gray-500" />
+            <input 
+              type="text" 
+              value={historyQuery} 
+              onChange={e => setHistoryQuery(e.target.value)} 
+              placeholder="Search past conversations..." 
+              className="w-full bg-surface-container border border-white/10 rounded-xl py-2.5 pl-9 pr-4 text-sm focus:outline-none focus:border-primary/50 text-white placeholder:text-gray-500"
+            />
+          </div>
+          {matches.length === 0 && (
+            <p className="text-[10px] font-label text-gray-500 text-center uppercase tracking-widest py-8">No Conversations Found</p>
+          )}
+          {matches.map((c: any) => (
+            <div 
+              key={c.id} 
+              className={`group flex items-start gap-3 p-3 rounded-2xl border transition-colors cursor-pointer ${c.id === activeConversationId ? 'bg-primary/10 border-primary/30' : 'bg-surface-container border-white/5 hover:border-primary/20'}`}
+              onClick={() => { onOpenConversation(c.id); setShowHistory(false); }}
+            >
+              <MessageSquare size={14} className="text-primary mt-1 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-sm font-bold text-on-surface truncate">{c.title}</h3>
+                  {c.plantId && (
+                    <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-[9px] font-label font-bold uppercase shrink-0">
+                      {plants.find((p: any) => p.id === c.plantId)?.name || 'Plant'}
+                    </span>
+                  )}
+                </div>
+                {c.preview && <p className="text-xs text-gray-500 truncate">{c.preview}</p>}
+                <p className="text-[9px] font-label text-gray-600 mt-1">
+                  {new Date(c.updatedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} // {c.messageCount} messages
+                </p>
+              </div>
+              <button 
+                onClick={e => { e.stopPropagation(); onDeleteConversation(c.id); }} 
+                className="p-1 text-gray-600 hover:text-error opacity-0 group-hover:opacity-100 transition-all"
+                title="Delete conversation"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
       <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar text-justify leading-relaxed">
         {chatMessages.length === 0 && (
           <div className="h-full flex flex-col items-center justify-center text-gray-700 opacity-40">
@@ -246,7 +705,7 @@ export const ScheduleTab = ({
             <p className="text-[10px] font-label text-center tracking-widest uppercase">Awaiting Neural Input...</p>
           </div>
         )}
-        {chatMessages.map((m: any) => (
+        {[...chatMessages, ...(streamingMessage ? [streamingMessage] : [])].map((m: any) => (
           <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
             <div className={`p-4 rounded-2xl text-sm max-w-[95%] shadow-sm ${m.role === 'user' ? 'bg-primary/20 text-white border border-primary/30 rounded-br-sm' : 'bg-surface-container-high border border-white/5 text-gray-200 rounded-bl-sm'}`}>
               <div className="flex justify-between items-start gap-4 mb-2">
@@ -262,12 +721,43 @@ export const ScheduleTab = ({
                   </button>
                 )}
               </div>
+              {m.thoughts && (
+                <details className="mb-2 text-xs text-gray-400" open={m.id === streamingMessage?.id && !m.text}>
+                  <summary className="cursor-pointer text-[9px] font-label uppercase tracking-widest text-gray-500 flex items-center gap-1">
+                    <BrainCircuit size={10}/> Thought Process
+                  </summary>
+                  <div className="markdown-body mt-2 pl-3 border-l border-white/10 opacity-80">
+                    <Markdown>{m.thoughts}</Markdown>
+                  </div>
+                </details>
+              )}
               <div className="markdown-body">
                 <Markdown>{m.text}</Markdown>
+                {m.id === streamingMessage?.id && <span className="inline-block w-1.5 h-3 ml-0.5 bg-primary animate-pulse align-middle" />}
               </div>
+              {m.interrupted && (
+                <p className="mt-2 text-[9px] font-label uppercase tracking-widest text-tertiary">Response interrupted</p>
+              )}
               {m.imageUrl && (
                 <img src={m.imageUrl} alt="Generated" className="mt-3 rounded-xl border border-white/10 max-w-full" referrerPolicy="no-referrer" />
               )}
+              {(m.attachedSnapshotIds?.length > 0 || m.attachedImageThumbnails?.length > 0) && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {(m.attachedSnapshotIds || []).map((id: string) => {
+                    const snapshot: any = snapshotById.get(id);
+                    return snapshot ? (
+                      <img key={id} src={getSnapshotThumbnail(snapshot)} alt="Attached snapshot" title={new Date(snapshot.timestamp).toLocaleString()} className="w-16 h-16 object-cover rounded-lg border border-white/10" />
+                    ) : (
+                      <div key={id} className="w-16 h-16 rounded-lg border border-dashed border-white/10 flex items-center justify-center text-gray-600" title="Snapshot deleted">
+                        <ImageOff size={16} />
+                      </div>
+                    );
+                  })}
+                  {(m.attachedImageThumbnails || []).map((src: string, i: number) => (
+                    <img key={i} src={src} alt="Attached upload" className="w-16 h-16 object-cover rounded-lg border border-white/10" />
+                  ))}
+                </div>
+              )}
               {m.groundingUrls && m.groundingUrls.length > 0 && (
                 <div className="mt-3 pt-3 border-t border-white/5 space-y-1">
                   <p className="text-[9px] font-label text-gray-500 uppercase tracking-widest">Sources:</p>
@@ -282,22 +772,82 @@ export const ScheduleTab = ({
             <span className="text-[8px] mt-1 text-gray-600 font-label px-1">{new Date(m.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</span>
           </div>
         ))}
-        {isProcessing && (
+        {isProcessing && !streamingMessage?.text && !streamingMessage?.thoughts && (
           <div className="flex items-center gap-2 text-[10px] font-label text-primary/60 animate-pulse bg-primary/5 px-4 py-2 rounded-full border border-primary/10 w-fit">
             <Cpu size={12} className="animate-spin" /> {useThinking ? 'Deep Neural Processing Engine Running...' : 'Neural Processing Engine Running...'}
           </div>
         )}
       </div>
+      )}
       <form onSubmit={handleChatSubmit} className="p-4 bg-black/40 border-t border-white/5">
+         {showPicker && (
+          <div className="mb-3 p-3 bg-surface-container rounded-2xl border border-white/10 space-y-2">
+            <div className="flex justify-between items-center text-[9px] font-label uppercase tracking-widest">
+              <span className="text-gray-500 font-bold">Attach Snapshots ({chatAttachments.length}/{MAX_CHAT_ATTACHMENTS})</span>
+              <button type="button" onClick={() => uploadRef.current?.click()} className="flex items-center gap-1 text-primary font-bold hover:text-primary-fixed">
+                <Upload size={10} /> Upload
+              </button>
+            </div>
+            <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+              {images.length === 0 && <p className="text-[10px] text-gray-600 font-label py-4">No snapshots yet.</p>}
+              {[...images].reverse().map((img: any) => {
+                const selected = chatAttachments.some((a: ChatAttachment) => a.id === img.id);
+                return (
+                  <button 
+                    type="button" 
+                    key={img.id} 
+                    onClick={() => setChatAttachments((prev: ChatAttachment[]) => toggleAttachment(prev, snapshotAttachment(img)))}
+                    className={`relative shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 transition-all ${selected ? 'border-primary' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                    title={new Date(img.timestamp).toLocaleString()}
+                  >
+                    <img src={getSnapshotThumbnail(img)} alt="Snapshot" className="w-full h-full object-cover" />
+                    {selected && <CheckCircle size={14} className="absolute top-1 right-1 text-primary bg-black/60 rounded-full" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+         )}
+         {chatAttachments.length > 0 && (
+          <div className="flex gap-2 mb-3">
+            {chatAttachments.map((a: ChatAttachment) => (
+              <div key={a.id} className="relative w-12 h-12 rounded-lg overflow-hidden border border-primary/30">
+                <img src={a.previewUrl} alt="Attachment" className="w-full h-full object-cover" />
+                <button 
+                  type="button" 
+                  onClick={() => setChatAttachments((prev: ChatAttachment[]) => prev.filter(p => p.id !== a.id))}
+                  className="absolute top-0 right-0 p-0.5 bg-black/70 text-white rounded-bl"
+                >
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+         )}
+         {uploadError && (
+          <p className="mb-3 text-[10px] font-mono text-error flex items-center justify-between gap-2">
+            {uploadError}
+            <button type="button" onClick={() => setUploadError(null)} className="text-gray-500 hover:text-white"><X size={10} /></button>
+          </p>
+         )}
+         <input ref={uploadRef} type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
          <div className="relative group">
           <input 
             type="text" 
             value={userInput} 
             onChange={e => setUserInput(e.target.value)} 
             placeholder="Query the Gemma network..." 
-            className="w-full bg-surface-container border border-white/10 rounded-xl py-3 px-4 text-sm focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 text-white transition-all placeholder:text-gray-500"
+            className="w-full bg-surface-container border border-white/10 rounded-xl py-3 pl-4 pr-28 text-sm focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 text-white transition-all placeholder:text-gray-500"
           />
           <div className="absolute right-3 top-2.5 flex items-center gap-2">
+            <button 
+              type="button" 
+              onClick={() => setShowPicker(!showPicker)}
+              className={`transition-colors ${showPicker || chatAttachments.length > 0 ? 'text-primary' : 'text-gray-500 hover:text-primary'}`}
+              title="Attach Snapshots"
+            >
+              <Paperclip size={18}/>
+            </button>
             <button 
               type="button" 
               onClick={handleGenerateImage}
@@ -307,30 +857,39 @@ export const ScheduleTab = ({
             >
               <Sun size={18}/>
             </button>
-            <button type="submit" disabled={isProcessing} className="text-primary/50 hover:text-primary transition-colors disabled:opacity-20">
-              <MessageSquare size={18}/>
-            </button>
+            {streamingMessage ? (
+              <button type="button" onClick={onStopGeneration} className="text-error/70 hover:text-error transition-colors" title="Stop generating">
+                <Square size={16} fill="currentColor"/>
+              </button>
+            ) : (
+              <button type="submit" disabled={isProcessing} className="text-primary/50 hover:text-primary transition-colors disabled:opacity-20">
+                <MessageSquare size={18}/>
+              </button>
+            )}
           </div>
          </div>
          <div className="flex gap-4 mt-3 px-1">
             <button 
               type="button"
+              disabled={aiCapabilities && !aiCapabilities.thinking}
               onClick={() => setUseThinking(!useThinking)}
-              className={`flex items-center gap-2 transition-colors ${useThinking ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
+              className={`flex items-center gap-2 transition-colors disabled:opacity-30 ${useThinking ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
             >
               <BrainCircuit size={12}/><span className="text-[9px] font-label font-bold">THINK</span>
             </button>
             <button 
               type="button"
+              disabled={aiCapabilities && !aiCapabilities.search}
               onClick={() => setUseSearch(!useSearch)}
-              className={`flex items-center gap-2 transition-colors ${useSearch ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
+              className={`flex items-center gap-2 transition-colors disabled:opacity-30 ${useSearch ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
             >
               <Globe size={12}/><span className="text-[9px] font-label font-bold">SEARCH</span>
             </button>
             <button 
               type="button"
+              disabled={aiCapabilities && !aiCapabilities.maps}
               onClick={() => setUseMaps(!useMaps)}
-              className={`flex items-center gap-2 transition-colors ${useMaps ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
+              className={`flex items-center gap-2 transition-colors disabled:opacity-30 ${useMaps ? 'text-primary' : 'text-gray-600 hover:text-gray-400'}`}
             >
               <MapPin size={12}/><span className="text-[9px] font-label font-bold">MAPS</span>
             </button>
@@ -338,4 +897,5 @@ export const ScheduleTab = ({
       </form>
     </div>
   </div>
-);
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CapturedImage, DigestStats, GrowthReport, Plant } from '../types';
+import { filterImagesByPlant } from '../services/plants';
+import { reportTitle, downloadReportMarkdown, printReportPdf } from '../services/reports';
+import { FileText, X, Layers, Clock, Trash2, Download, Printer, ChevronLeft, Cpu, Volume2, Square, CalendarDays } from 'lucide-react';
+
+interface ReportsPanelProps {
+  reports: GrowthReport[]; // Newest first
+  images: CapturedImage[];
+  plants: Plant[];
+  activePlantId?: string;
+  generating: boolean;
+  onGenerate: (plantId: string | undefined, rangeStart: number, rangeEnd: number) => Promise<GrowthReport | null>;
+  onDelete: (id: string) => void;
+  speakingId: string | null;
+  onSpeak: (report: GrowthReport) => void; // Toggles playback when `speakingId` matches
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="space-y-2">
+    <h4 className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">{title}</h4>
+    {children}
+  </section>
+);
+
+const formatChange = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+
+const DigestStatsView = ({ stats }: { stats: DigestStats }) => {
+  const care = Object.entries(stats.careCounts);
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {[
+          ['Snapshots', String(stats.snapshotCount)],
+          ['Healthy', stats.healthyShare !== undefined ? `${Math.round(stats.healthyShare * 100)}%` : '--'],
+          ['Canopy', stats.canopyChange !== undefined ? formatChange(stats.canopyChange) : '--']
+        ].map(([label, value]) => (
+          <div key={label} className="p-2 bg-black/40 rounded border border-white/5">
+            <p className="text-[9px] font-mono text-gray-500 uppercase tracking-widest">{label}</p>
+            <p className="text-sm font-bold text-white">{value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] font-mono text-gray-400">
+        CARE // {care.length > 0 ? care.map(([type, n]) => `${type} ×${n}`).join(', ') : 'none logged'}
+      </p>
+      {stats.healthTransitions.length > 0 && (
+        <p className="text-[10px] font-mono text-gray-400">
+          HEALTH // {stats.healthTransitions.map(t => `${t.from} → ${t.to} (${new Date(t.timestamp).toLocaleDateString([], { weekday: 'short' })})`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ReportView = ({ report }: { report: GrowthReport }) => (
+  <div className="space-y-5">
+    {report.stats && <DigestStatsView stats={report.stats} />}
+    <Section title="Summary">
+      <p className="text-sm text-gray-200 leading-relaxed">{report.summary}</p>
+    </Section>
+    {report.trend && (
+      <Section title="Trend">
+        <p className="text-sm text-gray-300 leading-relaxed">{report.trend}</p>
+      </Section>
+    )}
+    <Section title="Issues">
+      {report.issues.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">None observed.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {report.issues.map((issue, i) => (
+            <li key={i} className="text-sm text-gray-300 pl-3 border-l-2 border-tertiary/60">{issue}</li>
+          ))}
+        </ul>
+      )}
+    </Section>
+    <Section title="Recommendations">
+      {report.recommendations.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">None.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {report.recommendations.map((rec, i) => (
+            <li key={i} className="text-sm text-gray-300 pl-3 border-l-2 border-primary/60">{rec}</li>
+          ))}
+        </ul>
+      )}
+    </Section>
+  </div>
+);
+
+const ReportsPanel: React.FC<ReportsPanelProps> = ({ reports, images, plants, activePlantId, generating, onGenerate, onDelete, speakingId, onSpeak, onClose }) => {
+  const [tab, setTab] = useState<'reports' | 'digests'>('reports');
+  const [plantId, setPlantId] = useState<string | undefined>(activePlantId);
+  const [startDate, setStartDate] = useState(toDateInput(Date.now() - 7 * DAY_MS));
+  const [endDate, setEndDate] = useState(toDateInput(Date.now()));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = reports.find(r => r.id === selectedId) || null;
+  const digests = reports.filter(r => r.kind === 'digest');
+  const listed = tab === 'digests' ? digests : reports.filter(r => r.kind !== 'digest');
+
+  const range = useMemo(() => ({
+    start: new Date(`${startDate}T00:00:00`).getTime(),
+    end: new Date(`${endDate}T23:59:59.999`).getTime()
+  }), [startDate, endDate]);
+
+  const snapshotCount = useMemo(
+    () => filterImagesByPlant(images, plantId, plants).filter(img => img.timestamp >= range.start && img.timestamp <= range.end).length,
+    [images, plantId, plants, range]
+  );
+
+  const generate = async () => {
+    const report = await onGenerate(plantId, range.start, range.end);
+    if (report) setSelectedId(report.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-[#04110c] border border-primary/30 p-6 rounded-3xl max-w-lg w-full shadow-[0_0_50px_rgba(192,254,113,0.1)] space-y-5 max-h-[90vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-primary min-w-0">
+            {selected ? (
+              <button onClick={() => setSelectedId(null)} className="p-3 bg-primary/10 rounded-full hover:bg-primary/20 transition-colors">
+                <ChevronLeft size={24} />
+              </button>
+            ) : (
+              <div className="p-3 bg-primary/10 rounded-full">
+                <FileText size={24} />
+              </div>
+            )}
+            <h3 className="text-lg font-bold font-headline tracking-tight truncate">{selected ? selected.plantName || 'All Plants' : 'Growth Reports'}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        {selected ? (
+          <>
+            <p className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+              {reportTitle(selected)} // {selected.snapshotCount} snapshots
+            </p>
+            <ReportView report={selected} />
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => onSpeak(selected)}
+                className={`py-2.5 border rounded-full text-[10px] font-bold uppercase tracking-widest transition-all font-label flex items-center justify-center gap-2 ${speakingId === selected.id ? 'bg-primary text-[#04110c] border-transparent' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+              >
+                {speakingId === selected.id ? <><Square size={12} /> Stop</> : <><Volume2 size={12} /> Listen</>}
+              </button>
+              <button
+                onClick={() => downloadReportMarkdown(selected)}
+                className="py-2.5 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold uppercase tracking-widest hover:bg-white/10 transition-all font-label flex items-center justify-center gap-2"
+              >
+                <Download size={12} /> Markdown
+              </button>
+              <button
+                onClick={() => printReportPdf(selected)}
+                className="py-2.5 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold uppercase tracking-widest hover:bg-white/10 transition-all font-label flex items-center justify-center gap-2"
+              >
+                <Printer size={12} /> PDF
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-1 p-1 bg-black/40 rounded border border-white/5">
+              {(['reports', 'digests'] as const).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`py-1.5 text-[10px] rounded uppercase font-bold transition-all ${tab === t ? 'bg-primary text-[#04110c]' : 'text-gray-500 hover:text-white'}`}
+                >
+                  {t === 'digests' ? `Weekly Digests (${digests.length})` : 'On-Demand'}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'reports' ? (
+              <>
+                <section className="space-y-2">
+                  <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold flex items-center gap-2"><Layers size={12} /> Plant</label>
+                  <select
+                    value={plantId || ''}
+                    onChange={e => setPlantId(e.target.value || undefined)}
+                    className="w-full bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white outline-none"
+                  >
+                    <option value="">All Snapshots</option>
+                    {plants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </section>
+
+                <section className="space-y-2">
+                  <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold flex items-center gap-2"><Clock size={12} /> Range</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none" />
+                    <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none" />
+                  </div>
+                  <p className="text-[10px] font-mono text-gray-500">{snapshotCount} snapshots in range</p>
+                </section>
+
+                <button
+                  onClick={generate}
+                  disabled={generating || snapshotCount === 0}
+                  className="w-full py-3 bg-primary text-[#04110c] rounded-full text-xs font-bold uppercase tracking-widest hover:scale-105 transition-all shadow-[0_0_20px_rgba(192,254,113,0.3)] font-label disabled:opacity-30 disabled:hover:scale-100 flex items-center justify-center gap-2"
+                >
+                  {generating ? <><Cpu size={14} className="animate-spin" /> Generating...</> : 'Generate Report'}
+                </button>
+              </>
+            ) : (
+              <p className="text-[10px] font-mono text-gray-500 flex items-center gap-2">
+                <CalendarDays size={12} /> Compiled automatically for each plant after every Monday-to-Sunday week.
+              </p>
+            )}
+
+            <section className="space-y-2">
+              <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">{tab === 'digests' ? 'Digest History' : 'Saved Reports'}</label>
+              {listed.length === 0 && (
+                <p className="text-[10px] font-label text-gray-500 text-center uppercase tracking-widest py-6">{tab === 'digests' ? 'No Digests Yet' : 'No Reports Yet'}</p>
+              )}
+              {listed.map(report => (
+                <div key={report.id} className="flex items-center gap-2 p-3 bg-black/40 rounded-xl border border-white/5 hover:border-primary/30 transition-colors">
+                  <button onClick={() => setSelectedId(report.id)} className="flex-1 text-left min-w-0">
+                    <p className="text-xs font-bold text-white truncate">{reportTitle(report)}</p>
+                    <p className="text-[10px] text-gray-500 truncate">{report.summary}</p>
+                  </button>
+                  <button onClick={() => onDelete(report.id)} className="p-2 text-gray-500 hover:text-error transition-colors" title="Delete Report">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default ReportsPanel;
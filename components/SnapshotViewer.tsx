@@ -0,0 +1,305 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { BoundingBox, CapturedImage, HealthStatus, HumanLabel } from '../types';
+import { getSnapshotSrc } from '../services/snapshotStorage';
+import { getStabilizationZoom, getStabilizationTransform } from '../services/alignment';
+import { formatTimestamp } from '../services/timelapse';
+import { HUE_BIN_DEGREES, needsGrowthMetrics } from '../services/growthMetrics';
+import { X, Play, Pause, ChevronLeft, ChevronRight, Crosshair, Scan, Tag, Undo2, Microscope } from 'lucide-react';
+
+interface SnapshotViewerProps {
+  image: CapturedImage;
+  sequence: CapturedImage[]; // Oldest first, the frames playback steps through
+  playing: boolean;
+  alignProgress: number | null;
+  onSelect: (img: CapturedImage) => void;
+  onTogglePlay: () => void;
+  onAlign: () => void;
+  roi?: BoundingBox; // Growth metrics region of the snapshot's plant
+  onSaveRoi?: (roi?: BoundingBox) => void; // Omitted when the snapshot has no plant
+  onSaveLabel?: (label: Omit<HumanLabel, 'labeledAt'> | null) => void; // Null reverts to the AI labels
+  onDiagnose?: () => void; // Opens the diagnosis view for this snapshot
+  onClose: () => void;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+const HEALTH_OPTIONS: HealthStatus[] = ['HEALTHY', 'STRESSED', 'CRITICAL'];
+
+const parseTags = (text: string) => text.split(',').map(t => t.trim()).filter(Boolean);
+
+const LabelEditor = ({ image, onSave }: { image: CapturedImage; onSave: NonNullable<SnapshotViewerProps['onSaveLabel']> }) => {
+  const label = image.humanLabel;
+  const [editing, setEditing] = useState(false);
+  const [health, setHealth] = useState<HealthStatus | undefined>();
+  const [stage, setStage] = useState('');
+  const [tags, setTags] = useState('');
+  // Fields the reviewer picked or edited; the rest stay pre-filled AI output and are not recorded
+  const [touched, setTouched] = useState<{ health?: boolean; stage?: boolean; tags?: boolean }>({});
+
+  // The draft starts from the current labels each time, since they may have changed on another device
+  const startEditing = () => {
+    setHealth(label?.healthStatus ?? image.healthStatus);
+    setStage(label?.growthStage ?? image.growthStage ?? '');
+    setTags((label?.tags ?? image.eventTags ?? []).join(', '));
+    setTouched({ health: !!label?.healthStatus, stage: !!label?.growthStage, tags: !!label?.tags });
+    setEditing(true);
+  };
+
+  const save = () => {
+    const next: Omit<HumanLabel, 'labeledAt'> = {
+      ...(touched.health && health ? { healthStatus: health } : {}),
+      ...(touched.stage && stage.trim() ? { growthStage: stage.trim() } : {}),
+      ...(touched.tags ? { tags: parseTags(tags) } : {})
+    };
+    onSave(Object.keys(next).length ? next : null);
+    setEditing(false);
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-[10px] font-mono text-gray-500 space-y-0.5 min-w-0">
+          <p className="truncate">AI // {image.healthStatus || '--'} // {image.growthStage || '--'}{image.confidence !== undefined ? ` // ${image.confidence}%` : ''}</p>
+          {label && (
+            <p className="truncate text-primary">
+              REVIEWED // {label.healthStatus || image.healthStatus || '--'} // {label.growthStage || image.growthStage || '--'}{label.tags?.length ? ` // ${label.tags.join(', ')}` : ''}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {label && (
+            <button onClick={() => onSave(null)} className="p-1.5 rounded-full text-gray-500 hover:text-error transition-colors" title="Revert to AI labels">
+              <Undo2 size={12} />
+            </button>
+          )}
+          <button
+            onClick={startEditing}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 text-[10px] font-label font-bold uppercase tracking-widest text-gray-300 hover:text-primary transition-colors"
+          >
+            <Tag size={12} /> {label ? 'Edit Labels' : 'Correct'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-3 bg-black/40 rounded-xl border border-white/5">
+      <div className="grid grid-cols-3 gap-1">
+        {HEALTH_OPTIONS.map(h => (
+          <button
+            key={h}
+            onClick={() => { setHealth(h); setTouched(t => ({ ...t, health: true })); }}
+            className={`py-1.5 text-[10px] rounded uppercase font-bold transition-all ${health === h ? 'bg-primary text-[#04110c]' : 'text-gray-500 hover:text-white bg-white/5'}`}
+          >
+            {h}
+          </button>
+        ))}
+      </div>
+      <input
+        value={stage}
+        onChange={e => { setStage(e.target.value); setTouched(t => ({ ...t, stage: true })); }}
+        placeholder="Growth stage"
+        className="w-full bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none"
+      />
+      <input
+        value={tags}
+        onChange={e => { setTags(e.target.value); setTouched(t => ({ ...t, tags: true })); }}
+        placeholder="Tags, comma separated"
+        className="w-full bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none"
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-[10px] font-mono text-gray-500 hover:text-white uppercase">Cancel</button>
+        <button onClick={save} className="px-4 py-1.5 rounded-full bg-primary text-[#04110c] text-[10px] font-label font-bold uppercase tracking-widest">Save</button>
+      </div>
+    </div>
+  );
+};
+
+const SnapshotViewer: React.FC<SnapshotViewerProps> = ({ image, sequence, playing, alignProgress, onSelect, onTogglePlay, onAlign, roi, onSaveRoi, onSaveLabel, onDiagnose, onClose }) => {
+  const [stabilize, setStabilize] = useState(true);
+  const [drawingRoi, setDrawingRoi] = useState(false);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const metrics = image.growthMetrics;
+  const index = sequence.findIndex(img => img.id === image.id);
+  const zoom = useMemo(() => getStabilizationZoom(sequence), [sequence]);
+  const alignedCount = sequence.filter(img => img.alignment).length;
+
+  const step = (delta: number) => {
+    if (sequence.length === 0) return;
+    onSelect(sequence[(Math.max(0, index) + delta + sequence.length) % sequence.length]);
+  };
+
+  // ROI coordinates are normalized to the raw frame, so drawing happens without stabilization
+  const pointerPos = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!drawingRoi) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerPos(e);
+    setDraft({ ...dragStart.current, width: 0, height: 0 });
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!drawingRoi || !dragStart.current) return;
+    const p = pointerPos(e);
+    const start = dragStart.current;
+    setDraft({ x: Math.min(start.x, p.x), y: Math.min(start.y, p.y), width: Math.abs(p.x - start.x), height: Math.abs(p.y - start.y) });
+  };
+
+  const onPointerUp = () => {
+    if (!drawingRoi || !dragStart.current) return;
+    dragStart.current = null;
+    if (draft && draft.width > 0.02 && draft.height > 0.02) {
+      const round = (n: number) => Math.round(n * 1000) / 1000;
+      onSaveRoi?.({ x: round(draft.x), y: round(draft.y), width: round(draft.width), height: round(draft.height) });
+      setDrawingRoi(false);
+    }
+    setDraft(null);
+  };
+
+  const shownRoi = draft || (drawingRoi || !stabilize ? roi : undefined);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={onClose}>
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        onClick={e => e.stopPropagation()}
+        className="bg-[#04110c] border border-primary/30 rounded-3xl max-w-2xl w-full overflow-hidden shadow-[0_0_50px_rgba(192,254,113,0.1)]"
+      >
+        <div
+          ref={frameRef}
+          className={`relative overflow-hidden bg-black touch-none ${drawingRoi ? 'cursor-crosshair' : ''}`}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <img
+            src={getSnapshotSrc(image)}
+            alt="Snapshot"
+            draggable={false}
+            className="w-full h-auto block transition-transform duration-200"
+            style={{ transform: stabilize && !drawingRoi ? getStabilizationTransform(image.alignment, zoom) : undefined }}
+          />
+          {shownRoi && (
+            <div
+              className="absolute border-2 border-dashed border-primary bg-primary/10 pointer-events-none"
+              style={{ left: `${shownRoi.x * 100}%`, top: `${shownRoi.y * 100}%`, width: `${shownRoi.width * 100}%`, height: `${shownRoi.height * 100}%` }}
+            />
+          )}
+          <button onClick={onClose} className="absolute top-3 right-3 p-2 rounded-full bg-black/60 text-gray-300 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+          {(image.humanLabel?.healthStatus || image.healthStatus) && (
+            <span className="absolute top-3 left-3 px-2 py-1 rounded bg-black/60 text-[10px] font-mono font-bold text-primary uppercase tracking-widest">
+              {image.humanLabel?.healthStatus
+                ? `${image.humanLabel.healthStatus} // REVIEWED`
+                : `${image.healthStatus}${image.analysisSource === 'local' ? ' // ON-DEVICE' : image.analysisSource === 'mock' ? ' // MOCK' : ''}`}
+            </span>
+          )}
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <button onClick={() => step(-1)} className="p-2 rounded-full bg-white/5 text-gray-300 hover:text-primary transition-colors"><ChevronLeft size={16} /></button>
+              <button onClick={onTogglePlay} className="p-2 rounded-full bg-primary text-[#04110c] hover:scale-105 transition-all">
+                {playing ? <Pause size={16} /> : <Play size={16} />}
+              </button>
+              <button onClick={() => step(1)} className="p-2 rounded-full bg-white/5 text-gray-300 hover:text-primary transition-colors"><ChevronRight size={16} /></button>
+            </div>
+            <span className="text-[10px] font-mono text-gray-500">
+              {index + 1}/{sequence.length} // {formatTimestamp(image.timestamp, 'both')}
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => setStabilize(!stabilize)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-label font-bold uppercase tracking-widest transition-colors ${stabilize ? 'bg-primary/20 text-primary' : 'bg-white/5 text-gray-500'}`}
+            >
+              <Crosshair size={12} /> Stabilize {stabilize ? 'On' : 'Off'}
+            </button>
+            <button
+              onClick={onAlign}
+              disabled={alignProgress !== null || sequence.length < 2}
+              className="px-3 py-1.5 rounded-full bg-white/5 text-[10px] font-label font-bold uppercase tracking-widest text-gray-300 hover:text-primary transition-colors disabled:opacity-40"
+            >
+              {alignProgress !== null ? `Aligning ${Math.round(alignProgress * 100)}%` : `Align Frames (${alignedCount}/${sequence.length})`}
+            </button>
+          </div>
+
+          {onDiagnose && (
+            <button
+              onClick={onDiagnose}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-full bg-white/5 text-[10px] font-label font-bold uppercase tracking-widest text-gray-300 hover:text-primary transition-colors"
+            >
+              <Microscope size={12} /> {image.diagnosis ? `View Diagnosis (${image.diagnosis.regions.length} regions)` : 'Diagnose Disease & Pests'}
+            </button>
+          )}
+
+          {image.alignment && (
+            <p className="text-[10px] font-mono text-gray-500">
+              OFFSET {(image.alignment.dx * 100).toFixed(1)}%, {(image.alignment.dy * 100).toFixed(1)}% // MATCH {Math.round(image.alignment.confidence * 100)}%
+            </p>
+          )}
+          {metrics && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                  ['Canopy', `${(metrics.canopyArea * 100).toFixed(1)}%`],
+                  ['Height', `${metrics.heightPx}px`],
+                  ['Greenness', `${(metrics.greenness * 100).toFixed(1)}%`]
+                ].map(([label, value]) => (
+                  <div key={label} className="p-2 bg-black/40 rounded border border-white/5">
+                    <p className="text-[9px] font-mono text-gray-500 uppercase tracking-widest">{label}</p>
+                    <p className="text-sm font-bold text-white">{value}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-end gap-0.5 h-8" title="Leaf color distribution by hue">
+                {metrics.hueHistogram.map((share, i) => (
+                  <div
+                    key={i}
+                    className="flex-1 rounded-t-sm"
+                    style={{ height: `${Math.max(2, share * 100)}%`, backgroundColor: `hsl(${i * HUE_BIN_DEGREES + HUE_BIN_DEGREES / 2}, 70%, 50%)` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          {onSaveRoi && (
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => { setDrawingRoi(!drawingRoi); setDraft(null); }}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-label font-bold uppercase tracking-widest transition-colors ${drawingRoi ? 'bg-primary text-[#04110c]' : 'bg-white/5 text-gray-300 hover:text-primary'}`}
+              >
+                <Scan size={12} /> {drawingRoi ? 'Drag Over Plant' : roi ? 'Redraw Region' : 'Set Region'}
+              </button>
+              {roi && !drawingRoi && (
+                <button onClick={() => onSaveRoi(undefined)} className="text-[10px] font-mono text-gray-500 hover:text-error uppercase">
+                  Clear Region
+                </button>
+              )}
+            </div>
+          )}
+          {metrics && needsGrowthMetrics(image, roi) && (
+            <p className="text-[10px] font-mono text-tertiary">Region changed // re-measure to update metrics</p>
+          )}
+          {onSaveLabel && image.analysis && <LabelEditor key={image.id} image={image} onSave={onSaveLabel} />}
+          {image.analysis && <p className="text-xs text-gray-300 leading-relaxed line-clamp-4">{image.analysis}</p>}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SnapshotViewer;
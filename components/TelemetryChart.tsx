@@ -9,16 +9,18 @@ import {
   ResponsiveContainer 
 } from 'recharts';
 import { CapturedImage } from '../types';
+import { toGrowthSeries } from '../services/growthMetrics';
 
 interface TelemetryChartProps {
   images: CapturedImage[];
 }
 
 const TelemetryChart: React.FC<TelemetryChartProps> = ({ images }) => {
-  const chartData = images.slice(-10).map((img, idx) => ({
+  const chartData = toGrowthSeries(images).slice(-10).map((point, idx) => ({
     name: idx,
-    confidence: img.confidence || 0,
-    health: img.healthStatus === 'HEALTHY' ? 100 : img.healthStatus === 'STRESSED' ? 50 : 20,
+    canopy: Math.round(point.canopy * 10) / 10,
+    greenness: Math.round(point.greenness * 10) / 10,
+    height: Math.round(point.height),
   }));
 
   return (
@@ -34,17 +36,24 @@ const TelemetryChart: React.FC<TelemetryChartProps> = ({ images }) => {
               <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
               <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
             </linearGradient>
+            <linearGradient id="colorHeight" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.2}/>
+              <stop offset="95%" stopColor="#f59e0b" stopOpacity={0}/>
+            </linearGradient>
           </defs>
           <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
           <XAxis dataKey="name" hide />
-          <YAxis hide domain={[0, 100]} />
+          <YAxis yAxisId="percent" hide domain={[0, 'auto']} />
+          {/* Height is in pixels, so it gets its own scale */}
+          <YAxis yAxisId="pixels" orientation="right" hide domain={[0, 'auto']} />
           <Tooltip 
             contentStyle={{ backgroundColor: '#000', border: '1px solid #ffffff10', borderRadius: '8px', fontSize: '10px' }}
             itemStyle={{ color: '#84cc16' }}
             labelStyle={{ display: 'none' }}
           />
-          <Area type="monotone" dataKey="confidence" stroke="#84cc16" fillOpacity={1} fill="url(#colorConf)" strokeWidth={2} />
-          <Area type="monotone" dataKey="health" stroke="#3b82f6" fillOpacity={1} fill="url(#colorHealth)" strokeWidth={2} />
+          <Area yAxisId="percent" type="monotone" dataKey="canopy" name="Canopy %" stroke="#84cc16" fillOpacity={1} fill="url(#colorConf)" strokeWidth={2} />
+          <Area yAxisId="percent" type="monotone" dataKey="greenness" name="Greenness %" stroke="#3b82f6" fillOpacity={1} fill="url(#colorHealth)" strokeWidth={2} />
+          <Area yAxisId="pixels" type="monotone" dataKey="height" name="Height px" stroke="#f59e0b" fillOpacity={1} fill="url(#colorHeight)" strokeWidth={2} />
         </AreaChart>
       </ResponsiveContainer>
     </div>
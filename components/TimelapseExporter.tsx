@@ -0,0 +1,209 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CapturedImage, MonitorSettings, Plant } from '../types';
+import { renderTimelapse, TimelapseFormat, formatTimestamp } from '../services/timelapse';
+import { filterImagesByPlant } from '../services/plants';
+import { Film, X, Download, Square, Clock, Activity, Layers } from 'lucide-react';
+
+interface TimelapseExporterProps {
+  images: CapturedImage[];
+  plants: Plant[];
+  settings: MonitorSettings;
+  onClose: () => void;
+}
+
+const toDateInput = (t: number) => {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const Toggle = ({ label, value, onChange }: { label: string; value: boolean; onChange: (v: boolean) => void }) => (
+  <div className="flex items-center justify-between p-3 bg-black/40 rounded border border-white/5">
+    <span className="text-[11px] font-bold text-gray-300">{label}</span>
+    <button
+      onClick={() => onChange(!value)}
+      className={`w-9 h-5 rounded-full relative transition-all duration-300 ${value ? 'bg-primary shadow-[0_0_12px_rgba(192,254,113,0.4)]' : 'bg-gray-700'}`}
+    >
+      <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${value ? 'right-1' : 'left-1'}`}></div>
+    </button>
+  </div>
+);
+
+const TimelapseExporter: React.FC<TimelapseExporterProps> = ({ images, plants, settings, onClose }) => {
+  const sorted = useMemo(() => [...images].sort((a, b) => a.timestamp - b.timestamp), [images]);
+  const [plantId, setPlantId] = useState<string | undefined>(settings.activePlantId);
+  const [startDate, setStartDate] = useState(sorted.length ? toDateInput(sorted[0].timestamp) : '');
+  const [endDate, setEndDate] = useState(sorted.length ? toDateInput(sorted[sorted.length - 1].timestamp) : '');
+  const [fps, setFps] = useState(Math.min(settings.playbackFps, 30));
+  const [format, setFormat] = useState<TimelapseFormat>('webm');
+  const [crossfade, setCrossfade] = useState(true);
+  const [showTimestamp, setShowTimestamp] = useState(true);
+  const [showHealthBadge, setShowHealthBadge] = useState(true);
+  const [stabilize, setStabilize] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ url: string; fileName: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selection = useMemo(() => {
+    const from = startDate ? new Date(`${startDate}T00:00:00`).getTime() : -Infinity;
+    const to = endDate ? new Date(`${endDate}T23:59:59.999`).getTime() : Infinity;
+    return filterImagesByPlant(sorted, plantId, plants).filter(img => img.timestamp >= from && img.timestamp <= to);
+  }, [sorted, plantId, plants, startDate, endDate]);
+
+  const alignedCount = selection.filter(img => img.alignment).length;
+  const crossfadeFrames = crossfade ? Math.max(1, Math.round(fps / 2)) : 0;
+  const holdFrames = Math.max(1, Math.round(fps / 2));
+  const durationSec = selection.length > 0
+    ? (selection.length * holdFrames + (selection.length - 1) * crossfadeFrames) / fps
+    : 0;
+
+  const startExport = async () => {
+    if (result) URL.revokeObjectURL(result.url);
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    abortRef.current = new AbortController();
+    try {
+      const video = await renderTimelapse(selection, {
+        fps,
+        format,
+        holdFrames,
+        crossfadeFrames,
+        showTimestamp,
+        timestampPrecision: settings.timestampPrecision,
+        showHealthBadge,
+        stabilize
+      }, setProgress, abortRef.current.signal);
+      const plantName = plants.find(p => p.id === plantId)?.name.replace(/\W+/g, '_').toLowerCase() || 'garden';
+      setResult({
+        url: URL.createObjectURL(video.blob),
+        fileName: `gemma_timelapse_${plantName}_${Date.now()}.${video.extension}`
+      });
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') {
+        console.error("Time-lapse export failed:", e);
+        setError(e.message || "Time-lapse export failed.");
+      }
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const close = () => {
+    abortRef.current?.abort();
+    if (result) URL.revokeObjectURL(result.url);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-[#04110c] border border-primary/30 p-6 rounded-3xl max-w-md w-full shadow-[0_0_50px_rgba(192,254,113,0.1)] space-y-5 max-h-[90vh] overflow-y-auto custom-scrollbar"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 text-primary">
+            <div className="p-3 bg-primary/10 rounded-full">
+              <Film size={24} />
+            </div>
+            <h3 className="text-lg font-bold font-headline tracking-tight">Export Time-lapse</h3>
+          </div>
+          <button onClick={close} className="text-gray-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <section className="space-y-2">
+          <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold flex items-center gap-2"><Layers size={12} /> Plant</label>
+          <select
+            value={plantId || ''}
+            onChange={e => setPlantId(e.target.value || undefined)}
+            className="w-full bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-sm text-white outline-none"
+          >
+            <option value="">All Snapshots</option>
+            {plants.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </section>
+
+        <section className="space-y-2">
+          <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold flex items-center gap-2"><Clock size={12} /> Range</label>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none" />
+            <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-surface-container border border-white/10 rounded-xl py-2 px-3 text-xs text-white outline-none" />
+          </div>
+          <p className="text-[10px] font-mono text-gray-500">
+            {selection.length} frames
+            {selection.length > 0 && ` // ${formatTimestamp(selection[0].timestamp, 'date')} → ${formatTimestamp(selection[selection.length - 1].timestamp, 'date')} // ~${durationSec.toFixed(1)}s`}
+          </p>
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-[0.1em]">
+            <span className="text-gray-500 flex items-center gap-2 font-bold"><Activity size={12} /> Frame Rate</span>
+            <span className="text-primary font-bold">{fps} FPS</span>
+          </div>
+          <input
+            type="range" min="2" max="30" step="1"
+            value={fps}
+            onChange={e => setFps(parseInt(e.target.value))}
+            className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-primary"
+          />
+          <div className="grid grid-cols-2 gap-1 p-1 bg-black/40 rounded border border-white/5">
+            {(['webm', 'mp4'] as const).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={`py-1.5 text-[10px] rounded uppercase font-bold transition-all ${format === f ? 'bg-primary text-[#04110c]' : 'text-gray-500 hover:text-white'}`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+          <Toggle label="Crossfade Frames" value={crossfade} onChange={setCrossfade} />
+          <Toggle label={`Burn-in Timestamp (${settings.timestampPrecision})`} value={showTimestamp} onChange={setShowTimestamp} />
+          <Toggle label="Health Badges" value={showHealthBadge} onChange={setShowHealthBadge} />
+          <Toggle label={`Stabilize (${alignedCount}/${selection.length} aligned)`} value={stabilize} onChange={setStabilize} />
+        </section>
+
+        {error && <p className="text-xs text-error font-mono">{error}</p>}
+
+        {progress !== null ? (
+          <div className="space-y-2">
+            <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-3 bg-white/5 border border-white/10 rounded-full text-xs font-bold uppercase tracking-widest hover:bg-white/10 transition-all font-label flex items-center justify-center gap-2"
+            >
+              <Square size={12} /> Cancel ({Math.round(progress * 100)}%)
+            </button>
+          </div>
+        ) : result ? (
+          <div className="space-y-3">
+            <video src={result.url} controls className="w-full rounded-xl border border-white/10" />
+            <a
+              href={result.url}
+              download={result.fileName}
+              className="w-full py-3 bg-primary text-[#04110c] rounded-full text-xs font-bold uppercase tracking-widest hover:scale-105 transition-all shadow-[0_0_20px_rgba(192,254,113,0.3)] font-label flex items-center justify-center gap-2"
+            >
+              <Download size={14} /> Download
+            </a>
+          </div>
+        ) : (
+          <button
+            onClick={startExport}
+            disabled={selection.length < 2}
+            className="w-full py-3 bg-primary text-[#04110c] rounded-full text-xs font-bold uppercase tracking-widest hover:scale-105 transition-all shadow-[0_0_20px_rgba(192,254,113,0.3)] font-label disabled:opacity-30 disabled:hover:scale-100"
+          >
+            Render Video
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default TimelapseExporter;
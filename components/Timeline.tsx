@@ -1,14 +1,17 @@
 import React from 'react';
 import { CapturedImage } from '../types';
-import { Clock, Eye, AlertTriangle, Leaf, Sprout, Flower, Sun, HelpCircle, Trash2, Download } from 'lucide-react';
+import { Clock, Eye, AlertTriangle, Leaf, Sprout, Flower, Sun, HelpCircle, Trash2, Download, MapPin, Cpu } from 'lucide-react';
+import { getSnapshotSrc, getSnapshotThumbnail } from '../services/snapshotStorage';
+import { needsReview } from '../services/confidence';
 
 interface TimelineProps {
   images: CapturedImage[];
   onSelect: (img: CapturedImage) => void;
   onDelete?: (imgId: string) => void;
+  minConfidence?: number; // Flags unreviewed analyses below this
 }
 
-const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete }) => {
+const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete, minConfidence }) => {
   const getHealthColor = (img: CapturedImage) => {
     // Priority: Explicit Metadata -> Text Analysis -> Default
     if (img.healthStatus === 'CRITICAL') return 'border-error shadow-[0_0_10px_rgba(255,113,108,0.4)]';
@@ -55,7 +58,7 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete }) => {
               onClick={() => onSelect(img)}
               className={`w-full h-full cursor-pointer ${getHealthColor(img)}`}
             >
-              <img src={img.dataUrl} alt="Snapshot" className="w-full h-full object-cover" />
+              <img src={getSnapshotThumbnail(img)} alt="Snapshot" className="w-full h-full object-cover" />
               <div className="absolute inset-0 bg-background/40 group-hover:bg-background/0 transition-colors"></div>
             </div>
             
@@ -71,7 +74,7 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete }) => {
                 </button>
               )}
               <a 
-                href={img.dataUrl} 
+                href={getSnapshotSrc(img)} 
                 download={`gemma-snapshot-${img.id}.jpg`}
                 onClick={(e) => e.stopPropagation()}
                 className="bg-primary/90 text-background p-1.5 rounded-full hover:bg-primary shadow-lg backdrop-blur-sm"
@@ -82,11 +85,15 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete }) => {
             </div>
 
             {/* Analysis Available Indicator */}
-            {img.analysis && (
-               <div className="absolute top-2 right-2 bg-primary text-background rounded-full p-1 shadow-[0_0_10px_#ddffaf] animate-pulse z-10">
+            {img.analysis && (img.analysisSource === 'local' ? (
+               <div className="absolute top-2 right-2 bg-tertiary text-background rounded-full p-1 shadow-md z-10" title="On-device estimate">
+                 <Cpu size={10} />
+               </div>
+            ) : (
+               <div className="absolute top-2 right-2 bg-primary text-background rounded-full p-1 shadow-[0_0_10px_#ddffaf] animate-pulse z-10" title={img.analysisSource === 'mock' ? 'Mock analysis' : 'Cloud analysis'}>
                  <Eye size={10} />
                </div>
-            )}
+            ))}
 
             {/* Location Indicator */}
             {img.location && (
@@ -109,7 +116,13 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect, onDelete }) => {
               <span className="text-[10px] font-mono text-gray-300">
                 {new Date(img.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </span>
-              <span className="text-[9px] text-cyber-accent/50 font-mono">ID-{img.id.slice(-4)}</span>
+              {minConfidence !== undefined && needsReview(img, minConfidence) ? (
+                <span className="text-[9px] text-tertiary font-mono font-bold flex items-center gap-1" title={`Confidence ${img.confidence}% is below ${minConfidence}%`}>
+                  <AlertTriangle size={9} /> LOW CONF
+                </span>
+              ) : (
+                <span className="text-[9px] text-cyber-accent/50 font-mono">ID-{img.id.slice(-4)}</span>
+              )}
             </div>
           </div>
         ))}
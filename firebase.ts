@@ -10,14 +10,24 @@ import {
   onAuthStateChanged, 
   User 
 } from 'firebase/auth';
-import { getFirestore, doc, getDocFromServer } from 'firebase/firestore';
+import { initializeFirestore, doc, getDocFromServer } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import firebaseConfig from './firebase-applet-config.json';
 
 const app = initializeApp(firebaseConfig);
 export const auth = getAuth(app);
-export const db = getFirestore(app, firebaseConfig.firestoreDatabaseId);
+// Optional model fields (location, plantId, endDate...) are often undefined; drop them instead of rejecting the write
+export const db = initializeFirestore(app, { ignoreUndefinedProperties: true }, firebaseConfig.firestoreDatabaseId);
+export const storage = getStorage(app);
 export const googleProvider = new GoogleAuthProvider();
 
+// Point snapshot uploads at the local Storage emulator when configured (e.g. VITE_STORAGE_EMULATOR_HOST=localhost:9199)
+const storageEmulatorHost = (import.meta as any).env?.VITE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  connectStorageEmulator(storage, host, parseInt(port || '9199'));
+}
+
 // Add custom parameters to improve mobile compatibility
 googleProvider.setCustomParameters({
   prompt: 'select_account'
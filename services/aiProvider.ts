@@ -0,0 +1,201 @@
+import { CareReminder, DiagnosisFindings, HealthStatus, PlantAnalysis, ReportSections } from '../types';
+
+// --- Provider Contract ---
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ChatHistoryEntry {
+  role: string;
+  text: string;
+}
+
+export interface ChatOptions {
+  useThinking?: boolean;
+  useSearch?: boolean;
+  useMaps?: boolean;
+  location?: { lat: number; lng: number };
+  images?: string[]; // Data URLs, sent as one image part each
+}
+
+export interface AnalysisOptions {
+  thorough?: boolean; // Slower reasoning model, for re-checking low-confidence results
+}
+
+export interface ChatResult {
+  text: string;
+  candidates: any[]; // Gemini-shaped candidates; grounding metadata is read from the first one
+}
+
+export interface ChatStreamChunk {
+  text?: string; // Answer text added since the previous chunk
+  thought?: string; // Thinking summary text added since the previous chunk
+  candidates?: any[];
+}
+
+export interface LiveSessionHandlers {
+  onAudioData: (base64: string) => void; // 24 kHz 16-bit PCM
+  onClose: () => void;
+  onError: (err: any) => void;
+  onTranscript: (text: string, isUser: boolean) => void;
+  tools?: LiveToolHandlers; // Only tools with a handler are offered to the model
+  onResumptionHandle?: (handle: string) => void; // Latest handle a dropped session can be resumed from
+  onGoAway?: () => void; // The server will close the connection shortly
+}
+
+export interface LiveConnectOptions {
+  context?: LiveContext;
+  resumeHandle?: string; // Continue an earlier session instead of starting fresh
+}
+
+/**
+ * What the app already knows about the plant, given to a Live session up
+ * front. Lines are preformatted so every provider sees the same text.
+ */
+export interface LiveContext {
+  generatedAt: number;
+  plant?: string; // Name and species
+  scans: string[]; // Newest first: time | health | stage | confidence | tags | observation
+  reminders: string[]; // title | schedule | state
+  alerts: string[]; // time | severity | message | status
+}
+
+export type LiveToolName = 'captureSnapshot' | 'logCareAction' | 'setReminder' | 'getPlantHistory' | 'startMonitoring' | 'stopMonitoring' | 'switchCamera';
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface LiveToolArgs {
+  captureSnapshot: {};
+  logCareAction: { type: CareReminder['type']; note?: string };
+  setReminder: { type: CareReminder['type']; frequencyDays?: number; title?: string };
+  getPlantHistory: { limit?: number };
+  startMonitoring: {};
+  stopMonitoring: {};
+  switchCamera: { facing?: CameraFacing };
+}
+
+export interface LiveSnapshotSummary {
+  capturedAt: string; // ISO time
+  health?: HealthStatus;
+  stage?: string;
+  confidence?: number;
+  tags?: string[];
+  observation?: string;
+  reviewed: boolean; // Health and stage come from a reviewer label
+}
+
+export interface LiveToolResults {
+  captureSnapshot: { result: string };
+  logCareAction: { result: string; loggedAt: string; reminderAdvanced: boolean };
+  setReminder: { result: string; nextDue: string };
+  getPlantHistory: { plant?: string; snapshots: LiveSnapshotSummary[] };
+  startMonitoring: { result: string; monitoring: boolean };
+  stopMonitoring: { result: string; monitoring: boolean };
+  switchCamera: { result: string; facing: CameraFacing };
+}
+
+export type LiveToolHandlers = {
+  [K in LiveToolName]?: (args: LiveToolArgs[K]) => Promise<LiveToolResults[K]>;
+};
+
+export interface LiveSession {
+  sendRealtimeInput: (input: { audio?: { data: string; mimeType: string }; video?: { data: string; mimeType: string } }) => void;
+  close: () => void;
+  bufferedAmount?: () => number | undefined; // Bytes queued on the socket but not yet sent, where the transport exposes it
+}
+
+export interface AIProviderCapabilities {
+  search: boolean;
+  maps: boolean;
+  thinking: boolean;
+  speech: boolean;
+  imageGeneration: boolean;
+  live: boolean;
+}
+
+/**
+ * Everything the app asks of a model backend. Options a provider does not
+ * support (see `capabilities`) are ignored rather than rejected.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  capabilities: AIProviderCapabilities;
+  sendMessage: (history: ChatHistoryEntry[], newMessage: string, options?: ChatOptions) => Promise<ChatResult>;
+  streamMessage: (history: ChatHistoryEntry[], newMessage: string, options?: ChatOptions & { signal?: AbortSignal }) => AsyncGenerator<ChatStreamChunk>;
+  analyzeImage: (base64Data: string, prompt: string, plantType?: string) => Promise<string>;
+  analyzePlantSnapshot: (base64Data: string, plantType?: string, options?: AnalysisOptions) => Promise<PlantAnalysis>;
+  generateGrowthReport: (logs: string[], subject?: string) => Promise<ReportSections>;
+  diagnoseSnapshot: (base64Data: string, plantType?: string) => Promise<DiagnosisFindings>;
+  getFastResponse: (text: string) => Promise<string>;
+  generateSpeech: (text: string) => Promise<string | undefined>; // Base64 24 kHz 16-bit PCM
+  generateImage: (prompt: string, aspectRatio?: string) => Promise<{ imageUrl: string }>;
+  connectLive: (handlers: LiveSessionHandlers, options?: LiveConnectOptions) => Promise<LiveSession>;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string; // Must accept image input for snapshot analysis
+}
+
+export const DEFAULT_OPENAI_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini'
+};
+
+// --- Shared Prompts ---
+
+export const CHAT_SYSTEM_INSTRUCTION = "You are Gemma, an expert AI botanist. You monitor plant growth, diagnose health issues, and offer gardening advice. IMPORTANT: You CAN see and analyze images when the user provides them. If the user asks about an image, analyze the image data provided in the message. Be precise and helpful.";
+
+export const LIVE_SYSTEM_INSTRUCTION = "You are Gemma, an expert botanist AI assistant connected to a live video feed. Your job is to ANALYZE the plant life in the video in REAL-TIME. 1. Identify the plant and its current growth stage (germination, vegetative, flowering, etc.). 2. Detect any health issues like wilting, pests, or discoloration. 3. Provide immediate botanical advice to the user. 4. Use your tools when the user asks you to take a snapshot, log or schedule care, check the plant's history, control monitoring or switch cameras. Speak naturally and concisely. TRANSLATION: If the user speaks in a language other than English, translate your response to that language and provide a concise English summary in the transcription.";
+
+const contextSection = (title: string, lines: string[]) => lines.length ? `\n${title}:\n${lines.map(l => `- ${l}`).join('\n')}` : '';
+
+export const liveSystemInstruction = (context?: LiveContext) => {
+  if (!context || (!context.plant && !context.scans.length && !context.reminders.length && !context.alerts.length)) return LIVE_SYSTEM_INSTRUCTION;
+  return `${LIVE_SYSTEM_INSTRUCTION}
+
+PLANT CONTEXT from the user's monitoring history, as of ${new Date(context.generatedAt).toString()}. Compare what you see with it and point out changes, e.g. a spot that was not on an earlier scan. Do not read it out unless asked.${context.plant ? `\nPlant: ${context.plant}` : ''}${contextSection('Recent scans, newest first (time | health | stage | confidence | tags | observation)', context.scans)}${contextSection('Care reminders (title | schedule | state)', context.reminders)}${contextSection('Recent alerts (time | severity | message | status)', context.alerts)}`;
+};
+
+export const snapshotAnalysisPrompt = (plantType?: string) =>
+  `Analyze this plant snapshot. Assess overall health, growth stage, notable events and any visible issues such as pests, spots, wilting or discoloration, locating each issue on the image.${plantType ? ` The plant species is ${plantType}.` : ''}`;
+
+export const diagnosisPrompt = (plantType?: string) =>
+  `Diagnose this plant snapshot for diseases, pests, nutrient deficiencies and environmental damage.${plantType ? ` The plant species is ${plantType}.` : ''} Locate every region of concern on the image with a box, or a point when it is too small for one, and describe the visual evidence for it. Name the most likely overall cause. If the plant looks healthy, say so and return no regions.`;
+
+export const growthReportPrompt = (logs: string[], subject?: string) => `
+  SYSTEM: You are Gemma, an expert AI Botanist.
+  TASK: Analyze the following observation logs${subject ? ` for ${subject}` : ''} and generate a concise growth progress report. Highlight health status, growth rate, and any care recommendations.
+  TONE: Scientific, encouraging, precise.
+  FORMAT: A JSON object with keys summary (string), trend (string describing change over time), issues (string array, empty if none) and recommendations (string array). Plain text inside strings, no markdown symbols like ** or #.
+  LOGS (one snapshot per line, oldest first: time | health | stage | confidence | canopy | greenness | tags | observation; lines starting with CARE are care actions: time | type | title):
+  ${logs.join('\n')}
+  `;
+
+// --- Helpers ---
+
+export const splitDataUrl = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg', data };
+};
+
+/**
+ * Runs one model tool call. Failures are reported back to the model as
+ * `{ error }` instead of being thrown, so the conversation can continue.
+ */
+export const runLiveTool = async (tools: LiveToolHandlers | undefined, name: string | undefined, args: unknown): Promise<Record<string, unknown>> => {
+  const handler = name ? tools?.[name as LiveToolName] as ((args: unknown) => Promise<object>) | undefined : undefined;
+  if (!handler) return { error: `Unknown tool: ${name}` };
+  try {
+    return { ...await handler(args || {}) };
+  } catch (e: any) {
+    console.error(`Live tool ${name} failed:`, e);
+    return { error: e.message || 'Tool failed.' };
+  }
+};
+
+export const toProviderError = (error: any, prefix: string) => {
+  if (error.message?.includes('API_KEY_INVALID') || error.status === 401) return new Error("Invalid API Key. Please check your configuration.");
+  if (error.message?.includes('quota') || error.status === 429) return new Error("API Quota Exceeded. Please try again later.");
+  return new Error(`${prefix}: ${error.message || 'Unknown network error'}`);
+};
@@ -0,0 +1,188 @@
+import { AlignmentTransform, CapturedImage } from '../types';
+import { loadImage } from './imageUtils';
+import { getSnapshotThumbnail } from './snapshotStorage';
+import { phaseCorrelate, PhaseShift } from './phaseCorrelation';
+import type { AlignmentRequest, AlignmentResponse } from './alignment.worker';
+
+// --- Configuration Constants ---
+const SAMPLE_SIZE = 128; // Power of two for the FFT; thumbnails are ~160px so nothing is gained above this
+const MIN_LINK_PEAK = 0.08; // Below this a frame-to-frame match is treated as noise
+const MAX_LINK_SHIFT = 0.25; // Larger jumps are almost always a mismatch, not camera drift
+const MAX_STABILIZATION_ZOOM = 1.3;
+
+// --- Helpers ---
+
+/**
+ * Renders a snapshot's thumbnail into a square grayscale buffer. The image is
+ * stretched rather than cropped so offsets map directly to frame fractions.
+ */
+const sampleGrayscale = async (img: CapturedImage): Promise<Float32Array> => {
+  const source = await loadImage(getSnapshotThumbnail(img));
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const gray = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Runs phase correlation off the main thread, falling back to inline
+ * computation where workers are unavailable or the worker fails.
+ */
+const createCorrelator = () => {
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL('./alignment.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Alignment worker unavailable, aligning on the main thread:", e);
+  }
+
+  let nextId = 0;
+  let workerFailed = false;
+  const pending = new Map<number, { resolve: (s: PhaseShift) => void; reject: (e: Error) => void }>();
+
+  // A worker that fails to load or crashes never answers, so settle everything it holds
+  const failWorker = (e: Event) => {
+    console.warn("Alignment worker failed, aligning on the main thread:", e);
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach(p => p.reject(new Error("Alignment worker failed")));
+    pending.clear();
+  };
+
+  if (worker) {
+    worker.onmessage = (e: MessageEvent<AlignmentResponse>) => {
+      const { id, dx, dy, peak, error } = e.data;
+      const entry = pending.get(id);
+      if (!entry) return;
+      pending.delete(id);
+      if (error !== undefined) entry.reject(new Error(error));
+      else entry.resolve({ dx: dx!, dy: dy!, peak: peak! });
+    };
+    worker.onerror = failWorker;
+    worker.onmessageerror = failWorker;
+  }
+
+  const correlateInWorker = (reference: Float32Array, target: Float32Array): Promise<PhaseShift> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      // Copies are transferred so the cached reference stays usable for the next link
+      const request: AlignmentRequest = { id, size: SAMPLE_SIZE, reference: reference.slice(), target: target.slice() };
+      worker!.postMessage(request, [request.reference.buffer, request.target.buffer]);
+    });
+
+  const correlate = async (reference: Float32Array, target: Float32Array): Promise<PhaseShift> => {
+    if (worker) {
+      try {
+        return await correlateInWorker(reference, target);
+      } catch (e) {
+        if (!workerFailed) throw e;
+      }
+    }
+    return phaseCorrelate(reference, target, SAMPLE_SIZE);
+  };
+
+  const dispose = () => {
+    worker?.terminate();
+    pending.forEach(p => p.reject(new Error("Alignment cancelled")));
+    pending.clear();
+  };
+
+  return { correlate, dispose };
+};
+
+// --- Alignment API ---
+
+/**
+ * Computes transforms for a sequence (oldest first) relative to its first
+ * frame. Each frame is matched against its predecessor and the offsets are
+ * chained, which tolerates the gradual change of a growing plant far better
+ * than matching everything against one distant reference. Frames that already
+ * carry a transform for the same reference are kept unless `force` is set.
+ *
+ * Returns only the transforms that changed, keyed by snapshot id.
+ */
+export const alignSequence = async (
+  sequence: CapturedImage[],
+  options: { force?: boolean; onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<Map<string, AlignmentTransform>> => {
+  const updates = new Map<string, AlignmentTransform>();
+  if (sequence.length === 0) return updates;
+
+  const reference = sequence[0];
+  const now = Date.now();
+  const isCurrent = (img: CapturedImage) => !options.force && img.alignment?.referenceId === reference.id;
+
+  let previous: AlignmentTransform = isCurrent(reference)
+    ? reference.alignment!
+    : { referenceId: reference.id, dx: 0, dy: 0, confidence: 1, computedAt: now };
+  if (!isCurrent(reference)) updates.set(reference.id, previous);
+
+  const correlator = createCorrelator();
+  let previousPixels: Float32Array | null = null;
+
+  try {
+    for (let i = 1; i < sequence.length; i++) {
+      if (options.signal?.aborted) throw new DOMException('Alignment cancelled', 'AbortError');
+      const frame = sequence[i];
+
+      // Reuse the stored chain as long as no earlier link has been recomputed
+      if (isCurrent(frame) && updates.size === 0) {
+        previous = frame.alignment!;
+        previousPixels = null;
+        options.onProgress?.(i / (sequence.length - 1));
+        continue;
+      }
+
+      const pixels = await sampleGrayscale(frame);
+      if (!previousPixels) previousPixels = await sampleGrayscale(sequence[i - 1]);
+      const shift = await correlator.correlate(previousPixels, pixels);
+      const dx = shift.dx / SAMPLE_SIZE;
+      const dy = shift.dy / SAMPLE_SIZE;
+      const reliable = shift.peak >= MIN_LINK_PEAK && Math.abs(dx) <= MAX_LINK_SHIFT && Math.abs(dy) <= MAX_LINK_SHIFT;
+
+      // An unreliable link holds the previous position instead of jumping
+      const transform: AlignmentTransform = {
+        referenceId: reference.id,
+        dx: previous.dx + (reliable ? dx : 0),
+        dy: previous.dy + (reliable ? dy : 0),
+        confidence: Math.min(previous.confidence, shift.peak),
+        computedAt: now
+      };
+      updates.set(frame.id, transform);
+      previous = transform;
+      previousPixels = pixels;
+      options.onProgress?.(i / (sequence.length - 1));
+    }
+  } finally {
+    correlator.dispose();
+  }
+
+  return updates;
+};
+
+/**
+ * One zoom factor for a whole sequence, large enough to hide the borders
+ * exposed by the biggest offset. Using a constant avoids a pulsing frame.
+ */
+export const getStabilizationZoom = (sequence: CapturedImage[]) => {
+  const maxShift = sequence.reduce((m, img) => Math.max(m, Math.abs(img.alignment?.dx || 0), Math.abs(img.alignment?.dy || 0)), 0);
+  return Math.min(MAX_STABILIZATION_ZOOM, 1 + 2 * maxShift);
+};
+
+/**
+ * CSS transform that stabilizes an element sized exactly to its image.
+ */
+export const getStabilizationTransform = (alignment: AlignmentTransform | undefined, zoom: number) => {
+  if (!alignment) return `scale(${zoom})`;
+  return `scale(${zoom}) translate(${(-alignment.dx * 100).toFixed(3)}%, ${(-alignment.dy * 100).toFixed(3)}%)`;
+};
@@ -0,0 +1,29 @@
+import { phaseCorrelate } from './phaseCorrelation';
+
+export interface AlignmentRequest {
+  id: number;
+  size: number;
+  reference: Float32Array;
+  target: Float32Array;
+}
+
+export interface AlignmentResponse {
+  id: number;
+  dx?: number;
+  dy?: number;
+  peak?: number;
+  error?: string;
+}
+
+// Typed loosely so this file compiles against the DOM lib used by the rest of the app
+const ctx = self as any;
+
+ctx.onmessage = (e: MessageEvent<AlignmentRequest>) => {
+  const { id, size, reference, target } = e.data;
+  try {
+    const shift = phaseCorrelate(reference, target, size);
+    ctx.postMessage({ id, ...shift } as AlignmentResponse);
+  } catch (err: any) {
+    ctx.postMessage({ id, error: err?.message || String(err) } as AlignmentResponse);
+  }
+};
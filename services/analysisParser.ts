@@ -0,0 +1,215 @@
+import { CapturedImage, PlantAnalysis, DetectedIssue, HealthStatus, BoundingBox, ReportSections, DiagnosisFindings, DiagnosisRegion } from '../types';
+
+// --- Helpers ---
+
+const HEALTH_VALUES: HealthStatus[] = ['HEALTHY', 'STRESSED', 'CRITICAL'];
+const SEVERITY_VALUES: DetectedIssue['severity'][] = ['low', 'medium', 'high'];
+const BOX_SCALE = 1000; // The model reports boxes on a 0-1000 grid
+
+const asString = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+
+const asHealth = (v: unknown): HealthStatus | undefined => {
+  const s = asString(v)?.toUpperCase();
+  return HEALTH_VALUES.find(h => h === s);
+};
+
+const asConfidence = (v: unknown): number | undefined => {
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return undefined;
+  // Prompts ask for 0-100; only a fraction strictly between 0 and 1 is read as the 0-1 scale
+  const pct = n > 0 && n < 1 && !Number.isInteger(n) ? n * 100 : n;
+  return Math.round(Math.min(Math.max(pct, 0), 100));
+};
+
+const asBox = (v: any): BoundingBox | undefined => {
+  if (!v || typeof v !== 'object') return undefined;
+  const [ymin, xmin, ymax, xmax] = [v.ymin, v.xmin, v.ymax, v.xmax].map(Number);
+  if (![ymin, xmin, ymax, xmax].every(Number.isFinite) || xmax <= xmin || ymax <= ymin) return undefined;
+  const clamp = (n: number) => Math.min(Math.max(n / BOX_SCALE, 0), 1);
+  return {
+    x: clamp(xmin),
+    y: clamp(ymin),
+    width: clamp(xmax) - clamp(xmin),
+    height: clamp(ymax) - clamp(ymin)
+  };
+};
+
+const asIssue = (v: any): DetectedIssue | null => {
+  const label = asString(v?.label);
+  if (!label) return null;
+  const severity = asString(v.severity)?.toLowerCase() as DetectedIssue['severity'];
+  return {
+    label,
+    ...(SEVERITY_VALUES.includes(severity) ? { severity } : {}),
+    ...(asBox(v.box) ? { box: asBox(v.box) } : {})
+  };
+};
+
+const CATEGORY_VALUES: DiagnosisRegion['category'][] = ['disease', 'pest', 'nutrient', 'environmental', 'other'];
+
+const asPoint = (v: any) => {
+  const [y, x] = [v?.y, v?.x].map(Number);
+  if (![y, x].every(Number.isFinite)) return undefined;
+  const clamp = (n: number) => Math.min(Math.max(n / BOX_SCALE, 0), 1);
+  return { x: clamp(x), y: clamp(y) };
+};
+
+const asRegion = (v: any): DiagnosisRegion | null => {
+  const label = asString(v?.label);
+  const box = asBox(v?.box);
+  const point = box ? undefined : asPoint(v?.point);
+  // A finding that cannot be placed on the image is not evidence
+  if (!label || (!box && !point)) return null;
+  const category = asString(v.category)?.toLowerCase() as DiagnosisRegion['category'];
+  const severity = asString(v.severity)?.toLowerCase() as DiagnosisRegion['severity'];
+  return {
+    label,
+    category: CATEGORY_VALUES.includes(category) ? category : 'other',
+    severity: SEVERITY_VALUES.includes(severity) ? severity! : 'medium',
+    evidence: asString(v.evidence) || '',
+    ...(box ? { box } : { point })
+  };
+};
+
+// --- Parsers ---
+
+/**
+ * Validates a structured analysis returned by the model. Individual fields
+ * that are missing or malformed are dropped rather than failing the whole
+ * result; throws only when the payload is not an object at all.
+ */
+export const parseStructuredAnalysis = (raw: unknown): PlantAnalysis => {
+  const data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error("Analysis payload is not an object.");
+  }
+  const d = data as Record<string, any>;
+  return {
+    summary: asString(d.summary) || '',
+    healthStatus: asHealth(d.healthStatus),
+    growthStage: asString(d.growthStage),
+    tags: Array.isArray(d.tags) ? d.tags.map(asString).filter((t): t is string => !!t) : [],
+    advice: asString(d.advice),
+    confidence: asConfidence(d.confidence),
+    detectedIssues: Array.isArray(d.detectedIssues) ? d.detectedIssues.map(asIssue).filter((i): i is DetectedIssue => !!i) : []
+  };
+};
+
+/**
+ * Fallback for free-text analyses using the legacy
+ * `[HEALTH: STATUS][STAGE: stage][TAGS: a, b][ADVICE: text][CONFIDENCE: X%]` tags.
+ */
+export const parseLegacyAnalysis = (text: string): PlantAnalysis => {
+  const tag = (name: string) => text.match(new RegExp(`\\[${name}:\\s*([^\\]]+)\\]`, 'i'))?.[1].trim();
+  const summary = text.replace(/\[(HEALTH|STAGE|TAGS|ADVICE|CONFIDENCE):[^\]]*\]/gi, '').trim();
+  return {
+    summary: summary || text.trim(),
+    healthStatus: asHealth(tag('HEALTH')),
+    growthStage: tag('STAGE'),
+    tags: (tag('TAGS') || '').split(',').map(t => t.trim()).filter(Boolean),
+    advice: tag('ADVICE'),
+    confidence: asConfidence(tag('CONFIDENCE')?.replace('%', '')),
+    detectedIssues: []
+  };
+};
+
+/**
+ * Parses any analysis text: JSON first (optionally wrapped in a code fence),
+ * then the legacy bracket tags.
+ */
+export const parseAnalysisText = (text: string): PlantAnalysis => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (json.startsWith('{')) {
+    try {
+      return parseStructuredAnalysis(json);
+    } catch {
+      // Fall through to the legacy format
+    }
+  }
+  return parseLegacyAnalysis(text);
+};
+
+/**
+ * Parses a structured growth report. Free-text replies (older models, or
+ * providers ignoring JSON mode) become the summary with empty lists.
+ */
+export const parseReportSections = (text: string): ReportSections => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const d = JSON.parse(json);
+    if (d && typeof d === 'object' && !Array.isArray(d)) {
+      const list = (v: unknown) => Array.isArray(v) ? v.map(asString).filter((s): s is string => !!s) : [];
+      return {
+        summary: asString(d.summary) || '',
+        trend: asString(d.trend) || '',
+        issues: list(d.issues),
+        recommendations: list(d.recommendations)
+      };
+    }
+  } catch {
+    // Fall through to plain text
+  }
+  return { summary: text.trim(), trend: '', issues: [], recommendations: [] };
+};
+
+/**
+ * Parses a structured diagnosis. Regions without a usable box or point are
+ * dropped; a free-text reply becomes the summary with no regions.
+ */
+export const parseDiagnosis = (text: string): DiagnosisFindings => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const d = JSON.parse(json);
+    if (d && typeof d === 'object' && !Array.isArray(d)) {
+      return {
+        summary: asString(d.summary) || '',
+        primaryCause: asString(d.primaryCause),
+        confidence: asConfidence(d.confidence),
+        regions: Array.isArray(d.regions) ? d.regions.map(asRegion).filter((r): r is DiagnosisRegion => !!r) : [],
+        recommendations: Array.isArray(d.recommendations) ? d.recommendations.map(asString).filter((s): s is string => !!s) : []
+      };
+    }
+  } catch {
+    // Fall through to plain text
+  }
+  return { summary: text.trim(), regions: [], recommendations: [] };
+};
+
+/**
+ * Snapshot fields to persist for an analysis. Undefined values are kept out
+ * so a merge never blanks existing data.
+ */
+export const analysisToSnapshotFields = (analysis: PlantAnalysis): Partial<CapturedImage> => {
+  const fields: Partial<CapturedImage> = {
+    analysis: analysis.summary,
+    healthStatus: analysis.healthStatus,
+    growthStage: analysis.growthStage,
+    eventTags: analysis.tags,
+    advice: analysis.advice,
+    confidence: analysis.confidence,
+    detectedIssues: analysis.detectedIssues,
+    analysisSource: analysis.source,
+    reanalyzed: analysis.reanalyzed
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+};
+
+/**
+ * Fills structured fields in memory for snapshots analysed before structured
+ * output existed, whose metadata only lives in bracket tags inside `analysis`.
+ * Each missing field is filled on its own (old documents always stored
+ * `healthStatus`), and the tags are stripped from the displayed summary.
+ */
+export const hydrateLegacyAnalysis = (img: CapturedImage): CapturedImage => {
+  if (!img.analysis || !/\[(HEALTH|STAGE|TAGS|ADVICE|CONFIDENCE):/i.test(img.analysis)) return img;
+  const parsed = parseLegacyAnalysis(img.analysis);
+  const fields: Partial<CapturedImage> = {
+    analysis: parsed.summary,
+    healthStatus: img.healthStatus || parsed.healthStatus,
+    growthStage: img.growthStage || parsed.growthStage,
+    eventTags: img.eventTags?.length ? img.eventTags : parsed.tags.length ? parsed.tags : undefined,
+    advice: img.advice || parsed.advice,
+    confidence: img.confidence ?? parsed.confidence
+  };
+  return { ...img, ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) };
+};
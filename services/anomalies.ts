@@ -0,0 +1,124 @@
+import { AnomalyAlert, AnomalyKind, CapturedImage, HealthStatus, Plant } from '../types';
+import { groupImagesByPlant } from './plants';
+import { getTrustedHealth, needsReview } from './confidence';
+
+// --- Configuration Constants ---
+const CONFIDENCE_DROP_POINTS = 25;
+const CANOPY_SHRINK_RATIO = 0.25; // Relative loss versus the previous measurement
+const MIN_CANOPY_FOR_SHRINK = 0.02; // Below this the plant is barely in frame and noise dominates
+const GREENNESS_DROP = 0.04; // Green chromatic coordinate, roughly 10% of the leaf-to-soil range
+const HUE_SHIFT_DISTANCE = 0.3; // Half the L1 distance between hue histograms, 0-1
+const RECENT_PAIRS_CHECKED = 10; // Per plant; older history was checked when it arrived
+
+const HEALTH_RANK: Record<HealthStatus, number> = { HEALTHY: 0, STRESSED: 1, CRITICAL: 2 };
+
+// --- Helpers ---
+
+// Deterministic so re-scans and other devices never duplicate an alert
+export const anomalyAlertId = (kind: AnomalyKind, afterSnapshotId: string) => `alert-${kind}-${afterSnapshotId}`;
+
+const sameRegion = (a: CapturedImage, b: CapturedImage) =>
+  JSON.stringify(a.growthMetrics?.roi ?? null) === JSON.stringify(b.growthMetrics?.roi ?? null);
+
+const hueDistance = (a: number[], b: number[]) =>
+  a.reduce((sum, share, i) => sum + Math.abs(share - (b[i] || 0)), 0) / 2;
+
+type Finding = Pick<AnomalyAlert, 'kind' | 'severity' | 'message' | 'beforeValue' | 'afterValue'>;
+
+// On-device and cloud confidences are on different footings, so only like is compared with like
+const sameSource = (a: CapturedImage, b: CapturedImage) => (a.analysisSource || 'cloud') === (b.analysisSource || 'cloud');
+
+/**
+ * Compares a snapshot with the previous one of the same plant. Each check
+ * only runs when both snapshots carry the relevant data. Health uses the
+ * reviewer's label where there is one, and analyses still awaiting review
+ * (below `minConfidence`) are not compared at all.
+ */
+export const compareSnapshots = (before: CapturedImage, after: CapturedImage, minConfidence: number): Finding[] => {
+  const findings: Finding[] = [];
+  const h0 = getTrustedHealth(before, minConfidence);
+  const h1 = getTrustedHealth(after, minConfidence);
+
+  if (h0 && h1 && HEALTH_RANK[h1] > HEALTH_RANK[h0]) {
+    findings.push({
+      kind: 'health_regression',
+      severity: h1 === 'CRITICAL' ? 'critical' : 'warning',
+      message: `Health dropped from ${h0} to ${h1}.`,
+      beforeValue: HEALTH_RANK[h0],
+      afterValue: HEALTH_RANK[h1]
+    });
+  }
+
+  if (
+    before.confidence !== undefined && after.confidence !== undefined &&
+    !needsReview(before, minConfidence) && !needsReview(after, minConfidence) && sameSource(before, after) &&
+    before.confidence - after.confidence >= CONFIDENCE_DROP_POINTS
+  ) {
+    findings.push({
+      kind: 'confidence_drop',
+      severity: 'warning',
+      message: `Analysis confidence fell from ${before.confidence}% to ${after.confidence}%.`,
+      beforeValue: before.confidence,
+      afterValue: after.confidence
+    });
+  }
+
+  const m0 = before.growthMetrics;
+  const m1 = after.growthMetrics;
+  if (m0 && m1 && sameRegion(before, after)) {
+    if (m0.canopyArea >= MIN_CANOPY_FOR_SHRINK && (m0.canopyArea - m1.canopyArea) / m0.canopyArea >= CANOPY_SHRINK_RATIO) {
+      const loss = (m0.canopyArea - m1.canopyArea) / m0.canopyArea;
+      findings.push({
+        kind: 'canopy_shrinkage',
+        severity: loss >= CANOPY_SHRINK_RATIO * 2 ? 'critical' : 'warning',
+        message: `Canopy shrank by ${Math.round(loss * 100)}% (${(m0.canopyArea * 100).toFixed(1)}% → ${(m1.canopyArea * 100).toFixed(1)}% of frame).`,
+        beforeValue: m0.canopyArea,
+        afterValue: m1.canopyArea
+      });
+    }
+    const shift = hueDistance(m0.hueHistogram, m1.hueHistogram);
+    if (m0.greenness - m1.greenness >= GREENNESS_DROP || shift >= HUE_SHIFT_DISTANCE) {
+      findings.push({
+        kind: 'color_shift',
+        severity: 'warning',
+        message: m0.greenness - m1.greenness >= GREENNESS_DROP
+          ? `Foliage lost greenness (${(m0.greenness * 100).toFixed(1)}% → ${(m1.greenness * 100).toFixed(1)}%).`
+          : `Leaf color distribution shifted by ${Math.round(shift * 100)}%.`,
+        beforeValue: m0.greenness,
+        afterValue: m1.greenness
+      });
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Alerts for the most recent snapshot pairs of every plant. Snapshots are
+ * compared with their immediate predecessor, so a slow decline does not
+ * trigger; the growth charts cover that.
+ */
+export const scanForAnomalies = (images: CapturedImage[], plants: Plant[], uid: string, minConfidence: number, now: number = Date.now()): AnomalyAlert[] => {
+  const alerts: AnomalyAlert[] = [];
+  for (const group of groupImagesByPlant(images, plants)) {
+    const sequence = group.images.slice(0, RECENT_PAIRS_CHECKED + 1).reverse();
+    for (let i = 1; i < sequence.length; i++) {
+      const before = sequence[i - 1];
+      const after = sequence[i];
+      for (const finding of compareSnapshots(before, after, minConfidence)) {
+        alerts.push({
+          id: anomalyAlertId(finding.kind, after.id),
+          uid,
+          ...(group.plant ? { plantId: group.plant.id } : {}),
+          ...finding,
+          beforeSnapshotId: before.id,
+          afterSnapshotId: after.id,
+          detectedAt: after.timestamp,
+          createdAt: now,
+          acknowledged: false
+        });
+      }
+    }
+  }
+  return alerts;
+};
@@ -0,0 +1,279 @@
+import { doc, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { BoundingBox, CapturedImage } from '../types';
+import { uploadSnapshotImage } from './snapshotStorage';
+import { analyzePlantSnapshot } from './geminiService';
+import { reanalyzeIfLowConfidence } from './confidence';
+import { analysisToSnapshotFields } from './analysisParser';
+import { measureImage } from './growthMetrics';
+import { classifySnapshot, isCloudUnavailable } from './localClassifier';
+
+// --- Configuration Constants ---
+const DB_NAME = 'gemma-offline';
+const DB_VERSION = 1;
+const STORE_JOBS = 'captureJobs';
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+const MAX_ANALYSIS_ATTEMPTS = 8; // Uploads retry forever, analyses are dropped after this many of their own failures
+const STEP_TIMEOUT_MS = 60 * 1000; // Firestore writes wait silently while offline
+
+/**
+ * A capture waiting to be persisted and/or analysed. The snapshot keeps its
+ * inline dataUrl until both steps are done.
+ */
+export interface CaptureJob {
+  id: string;
+  uid: string;
+  snapshot: CapturedImage;
+  plantType?: string;
+  roi?: BoundingBox; // Growth metrics region of the snapshot's plant
+  localFallback?: boolean; // Classify on-device once cloud analysis is unavailable or exhausted
+  reanalyzeBelow?: number; // Confidence under which the thorough model takes a second look
+  pendingUpload: boolean;
+  pendingAnalysis: boolean;
+  uploadAttempts: number;
+  analysisAttempts: number; // Counted separately so a slow upload cannot use up the analysis retries
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+export interface QueueStatus {
+  depth: number;
+  draining: boolean;
+  lastError?: string;
+  pending: CapturedImage[]; // Captures not uploaded yet, shown in the timeline until Firestore has them
+}
+
+// --- IndexedDB Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openQueueDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_JOBS)) {
+          request.result.createObjectStore(STORE_JOBS, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const idb = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const request = run(idb.transaction(STORE_JOBS, mode).objectStore(STORE_JOBS));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withTimeout = <T>(promise: Promise<T>, label: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out`)), STEP_TIMEOUT_MS);
+    promise.then(
+      v => { clearTimeout(timer); resolve(v); },
+      e => { clearTimeout(timer); reject(e); }
+    );
+  });
+
+// --- Status Listeners ---
+
+type Listener = (status: QueueStatus) => void;
+const listeners = new Set<Listener>();
+let status: QueueStatus = { depth: 0, draining: false, pending: [] };
+
+const publish = (patch: Partial<QueueStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(l => l(status));
+};
+
+export const subscribeQueueStatus = (listener: Listener) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+const refreshStatus = async () => {
+  const jobs = await listJobs();
+  publish({ depth: jobs.length, pending: jobs.filter(j => j.pendingUpload).map(j => j.snapshot) });
+};
+
+// --- Queue API ---
+
+export const listJobs = () => withStore<CaptureJob[]>('readonly', store => store.getAll());
+
+const putJob = async (job: CaptureJob) => {
+  await withStore('readwrite', store => store.put(job));
+};
+
+const removeJob = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const enqueueCapture = async (
+  uid: string,
+  snapshot: CapturedImage,
+  options: { analyze: boolean; plantType?: string; roi?: BoundingBox; localFallback?: boolean; reanalyzeBelow?: number }
+) => {
+  const now = Date.now();
+  await putJob({
+    id: snapshot.id,
+    uid,
+    snapshot,
+    plantType: options.plantType,
+    roi: options.roi,
+    localFallback: options.localFallback,
+    reanalyzeBelow: options.reanalyzeBelow,
+    pendingUpload: true,
+    pendingAnalysis: options.analyze,
+    uploadAttempts: 0,
+    analysisAttempts: 0,
+    nextAttemptAt: now,
+    createdAt: now
+  });
+  await refreshStatus();
+};
+
+/**
+ * Drops a queued capture, e.g. when the user deletes it before it synced.
+ */
+export const cancelCapture = async (id: string) => {
+  await removeJob(id);
+  await refreshStatus();
+};
+
+export const getBackoffDelay = (attempts: number) => {
+  const exp = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4)); // ±20% jitter so devices don't retry in lockstep
+};
+
+/**
+ * Runs the remaining steps of a job, persisting progress after each step so
+ * a finished upload is never repeated.
+ */
+const runJob = async (job: CaptureJob) => {
+  const { snapshot } = job;
+  if (!snapshot.dataUrl) throw new Error("Queued capture has no image data.");
+
+  if (job.pendingUpload) {
+    const { dataUrl, ...meta } = snapshot;
+    const stored = await withTimeout(uploadSnapshotImage(job.uid, snapshot.id, dataUrl), 'Upload');
+    // Metrics are best effort; a snapshot without them can be measured later
+    const growthMetrics = await measureImage(dataUrl, job.roi).catch(e => {
+      console.warn("Growth metrics failed:", e);
+      return undefined;
+    });
+    await withTimeout(setDoc(doc(db, 'users', job.uid, 'snapshots', snapshot.id), { ...meta, ...stored, growthMetrics }), 'Snapshot write');
+    job.pendingUpload = false;
+    await putJob(job);
+  }
+
+  if (job.pendingAnalysis) {
+    let analysis;
+    try {
+      analysis = await withTimeout(analyzePlantSnapshot(snapshot.dataUrl, job.plantType), 'Analysis');
+    } catch (e) {
+      // Transient failures keep retrying in the cloud; the last attempt falls back instead of dropping
+      const lastAttempt = (job.analysisAttempts || 0) + 1 >= MAX_ANALYSIS_ATTEMPTS;
+      if (!job.localFallback || !(isCloudUnavailable(e) || lastAttempt)) throw e;
+      console.warn("Cloud analysis unavailable, using on-device classifier:", e);
+      analysis = await classifySnapshot(snapshot.dataUrl, job.roi);
+    }
+    if (job.reanalyzeBelow !== undefined) {
+      const first = analysis;
+      analysis = await withTimeout(reanalyzeIfLowConfidence(first, snapshot.dataUrl, job.plantType, job.reanalyzeBelow), 'Re-analysis')
+        .catch(() => first);
+    }
+    await withTimeout(
+      setDoc(doc(db, 'users', job.uid, 'snapshots', snapshot.id), analysisToSnapshotFields(analysis), { merge: true }),
+      'Analysis write'
+    );
+    job.pendingAnalysis = false;
+  }
+};
+
+/**
+ * Without network the on-device classifier is the only analysis available.
+ * Its result goes onto the queued snapshot, so it shows while the capture
+ * waits and is written with the upload.
+ */
+const classifyOffline = async (jobs: CaptureJob[]) => {
+  for (const job of jobs) {
+    if (!job.pendingAnalysis || !job.localFallback || !job.snapshot.dataUrl) continue;
+    try {
+      const analysis = await classifySnapshot(job.snapshot.dataUrl, job.roi);
+      job.snapshot = { ...job.snapshot, ...analysisToSnapshotFields(analysis) };
+      job.pendingAnalysis = false;
+      await putJob(job);
+    } catch (e) {
+      console.warn("On-device analysis failed:", job.id, e);
+    }
+  }
+};
+
+let draining = false;
+
+/**
+ * Processes every due job for `uid`, oldest first. Failed jobs are
+ * rescheduled with exponential backoff. Offline, only on-device analysis
+ * runs and uploads wait. Safe to call repeatedly; concurrent calls are
+ * coalesced.
+ */
+export const drainQueue = async (uid: string) => {
+  if (draining) return;
+  draining = true;
+  publish({ draining: true });
+
+  try {
+    if (!navigator.onLine) {
+      await classifyOffline((await listJobs()).filter(j => j.uid === uid));
+      return;
+    }
+    const now = Date.now();
+    const due = (await listJobs())
+      .filter(j => j.uid === uid && j.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const job of due) {
+      try {
+        await runJob(job);
+        await removeJob(job.id);
+        publish({ lastError: undefined });
+      } catch (e: any) {
+        // Jobs queued before the counts were split have neither, hence the fallbacks
+        if (job.pendingUpload) job.uploadAttempts = (job.uploadAttempts || 0) + 1;
+        else job.analysisAttempts = (job.analysisAttempts || 0) + 1;
+        job.lastError = e?.message || String(e);
+        job.nextAttemptAt = Date.now() + getBackoffDelay(job.pendingUpload ? job.uploadAttempts : job.analysisAttempts);
+        if (!job.pendingUpload && job.analysisAttempts >= MAX_ANALYSIS_ATTEMPTS) {
+          console.warn("Dropping analysis after repeated failures:", job.id, job.lastError);
+          await removeJob(job.id);
+        } else {
+          await putJob(job);
+        }
+        publish({ lastError: job.lastError });
+        // Connectivity problems affect every job alike; wait for the next drain
+        if (!navigator.onLine) break;
+      }
+      await refreshStatus();
+    }
+  } catch (e) {
+    console.error("Capture queue drain failed:", e);
+  } finally {
+    draining = false;
+    publish({ draining: false });
+    await refreshStatus().catch(() => {});
+  }
+};
+
+export const initQueueStatus = () => refreshStatus().catch(e => console.warn("Capture queue unavailable:", e));
@@ -0,0 +1,101 @@
+import { CareReminder, CareAction } from '../types';
+
+// --- Configuration Constants ---
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DUE_SOON_WINDOW_MS = DAY_MS; // Reminders due within a day are surfaced as upcoming
+
+export const SNOOZE_OPTIONS_HOURS = [1, 4, 24];
+
+export type ReminderState = 'overdue' | 'due' | 'upcoming';
+
+export interface ReminderStatus {
+  reminder: CareReminder;
+  state: ReminderState;
+}
+
+// --- Helpers ---
+
+const REMINDER_DEFAULTS: Record<CareReminder['type'], { title: string; frequencyDays: number }> = {
+  water: { title: 'Water', frequencyDays: 3 },
+  fertilize: { title: 'Fertilize', frequencyDays: 14 },
+  prune: { title: 'Prune', frequencyDays: 30 },
+  custom: { title: 'Care Task', frequencyDays: 7 }
+};
+
+export const CARE_TYPES = Object.keys(REMINDER_DEFAULTS) as CareReminder['type'][];
+
+export const createReminder = (
+  type: CareReminder['type'],
+  now: number = Date.now(),
+  overrides: Partial<Pick<CareReminder, 'title' | 'frequencyDays'>> = {}
+): CareReminder => {
+  const frequencyDays = overrides.frequencyDays ?? REMINDER_DEFAULTS[type].frequencyDays;
+  return {
+    id: now.toString(),
+    title: overrides.title || REMINDER_DEFAULTS[type].title,
+    type,
+    frequencyDays,
+    nextDue: now + frequencyDays * DAY_MS,
+    isActive: true
+  };
+};
+
+const startOfDay = (t: number) => {
+  const d = new Date(t);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const getReminderState = (reminder: CareReminder, now: number = Date.now()): ReminderState => {
+  if (reminder.nextDue < startOfDay(now)) return 'overdue';
+  if (reminder.nextDue <= now) return 'due';
+  return 'upcoming';
+};
+
+/**
+ * Active reminders that need attention now or within the due-soon window,
+ * most urgent first.
+ */
+export const getActionableReminders = (reminders: CareReminder[] | undefined, now: number = Date.now()): ReminderStatus[] =>
+  (reminders || [])
+    .filter(r => r.isActive && r.nextDue <= now + DUE_SOON_WINDOW_MS)
+    .sort((a, b) => a.nextDue - b.nextDue)
+    .map(reminder => ({ reminder, state: getReminderState(reminder, now) }));
+
+/**
+ * Rolls `nextDue` forward after the task is done. The next occurrence is
+ * counted from the completion time so a late watering does not immediately
+ * come due again.
+ */
+export const completeReminder = (reminder: CareReminder, completedAt: number = Date.now()): CareReminder => ({
+  ...reminder,
+  nextDue: completedAt + Math.max(1, reminder.frequencyDays) * DAY_MS
+});
+
+export const snoozeReminder = (reminder: CareReminder, hours: number, now: number = Date.now()): CareReminder => ({
+  ...reminder,
+  nextDue: Math.max(reminder.nextDue, now) + hours * HOUR_MS
+});
+
+export const createCareAction = (reminder: CareReminder, uid: string, timestamp: number = Date.now()): CareAction => ({
+  id: timestamp.toString(),
+  uid,
+  reminderId: reminder.id,
+  type: reminder.type,
+  title: reminder.title,
+  timestamp
+});
+
+/**
+ * A care action logged without a reminder, e.g. by voice. Titled after the
+ * reminder defaults so it reads the same in the care history.
+ */
+export const createLoggedCareAction = (type: CareReminder['type'], uid: string, note?: string, timestamp: number = Date.now()): CareAction => ({
+  id: timestamp.toString(),
+  uid,
+  type,
+  title: REMINDER_DEFAULTS[type].title,
+  timestamp,
+  ...(note ? { note } : {})
+});
@@ -0,0 +1,65 @@
+import { CapturedImage, ChatMessage } from '../types';
+import { fileToDataUrl, resizeImage } from './imageUtils';
+import { getSnapshotThumbnail, loadSnapshotDataUrl } from './snapshotStorage';
+
+// --- Configuration Constants ---
+export const MAX_CHAT_ATTACHMENTS = 4;
+const ATTACHMENT_MAX_SIZE = 1536; // Plenty for diagnosis while keeping requests small
+const ATTACHMENT_QUALITY = 0.85;
+const PREVIEW_SIZE = 160;
+
+/**
+ * An image queued for the next chat message: either an existing snapshot or
+ * a file picked from the device.
+ */
+export interface ChatAttachment {
+  id: string;
+  snapshot?: CapturedImage;
+  dataUrl?: string; // Uploaded files only, already downscaled
+  previewUrl: string;
+}
+
+export const snapshotAttachment = (img: CapturedImage): ChatAttachment => ({
+  id: img.id,
+  snapshot: img,
+  previewUrl: getSnapshotThumbnail(img)
+});
+
+export const fileAttachment = async (file: File): Promise<ChatAttachment> => {
+  const original = await fileToDataUrl(file);
+  const [dataUrl, previewUrl] = await Promise.all([
+    resizeImage(original, ATTACHMENT_MAX_SIZE, ATTACHMENT_QUALITY),
+    resizeImage(original, PREVIEW_SIZE, 0.6)
+  ]);
+  return { id: `upload-${Date.now()}-${file.name}`, dataUrl, previewUrl };
+};
+
+/**
+ * Adds or removes an attachment, ignoring additions beyond the limit.
+ */
+export const toggleAttachment = (current: ChatAttachment[], attachment: ChatAttachment) => {
+  if (current.some(a => a.id === attachment.id)) return current.filter(a => a.id !== attachment.id);
+  return current.length >= MAX_CHAT_ATTACHMENTS ? current : [...current, attachment];
+};
+
+/**
+ * Full image data for the model, in attachment order.
+ */
+export const resolveAttachmentImages = (attachments: ChatAttachment[]) =>
+  Promise.all(attachments.map(async a => {
+    if (a.dataUrl) return a.dataUrl;
+    return resizeImage(await loadSnapshotDataUrl(a.snapshot!), ATTACHMENT_MAX_SIZE, ATTACHMENT_QUALITY);
+  }));
+
+/**
+ * Message fields recording what was attached, so the conversation can show
+ * thumbnails after a reload.
+ */
+export const attachmentMessageFields = (attachments: ChatAttachment[]): Partial<ChatMessage> => {
+  const snapshotIds = attachments.filter(a => a.snapshot).map(a => a.snapshot!.id);
+  const uploads = attachments.filter(a => !a.snapshot).map(a => a.previewUrl);
+  return {
+    ...(snapshotIds.length > 0 ? { attachedSnapshotIds: snapshotIds } : {}),
+    ...(uploads.length > 0 ? { attachedImageThumbnails: uploads } : {})
+  };
+};
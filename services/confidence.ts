@@ -0,0 +1,41 @@
+import { CapturedImage, HealthStatus, PlantAnalysis } from '../types';
+import { analyzePlantSnapshot, getAIProvider } from './geminiService';
+
+// --- Helpers ---
+
+export const isLowConfidence = (img: CapturedImage, threshold: number) =>
+  img.confidence !== undefined && img.confidence < threshold;
+
+/**
+ * Low-confidence analyses nobody has confirmed or corrected yet.
+ */
+export const needsReview = (img: CapturedImage, threshold: number) =>
+  !!img.healthStatus && !img.humanLabel?.healthStatus && isLowConfidence(img, threshold);
+
+/**
+ * Health to count in stats: the reviewer's label wins, and unreviewed
+ * low-confidence analyses are left out.
+ */
+export const getTrustedHealth = (img: CapturedImage, threshold: number): HealthStatus | undefined =>
+  img.humanLabel?.healthStatus ?? (isLowConfidence(img, threshold) ? undefined : img.healthStatus);
+
+/**
+ * Repeats a low-confidence analysis with the thorough model and keeps the
+ * more confident of the two passes. A failed second pass keeps the first.
+ */
+export const reanalyzeIfLowConfidence = async (
+  first: PlantAnalysis,
+  dataUrl: string,
+  plantType: string | undefined,
+  threshold: number
+): Promise<PlantAnalysis> => {
+  if (first.confidence === undefined || first.confidence >= threshold) return first;
+  if (first.source === 'local' || !getAIProvider().capabilities.thinking) return first;
+  try {
+    const second = await analyzePlantSnapshot(dataUrl, plantType, { thorough: true });
+    return (second.confidence ?? 0) >= first.confidence ? { ...second, reanalyzed: true } : first;
+  } catch (e) {
+    console.warn("Thorough re-analysis failed, keeping first result:", e);
+    return first;
+  }
+};
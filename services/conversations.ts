@@ -0,0 +1,85 @@
+import { ChatMessage, Conversation } from '../types';
+import { getFastResponse } from './geminiService';
+
+// --- Configuration Constants ---
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation';
+const MAX_KEYWORDS = 400; // Keeps conversation documents small
+const MIN_KEYWORD_LENGTH = 3;
+const PREVIEW_LENGTH = 120;
+const MAX_TITLE_LENGTH = 60;
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'have', 'has',
+  'was', 'were', 'what', 'when', 'how', 'why', 'can', 'should', 'would', 'could', 'from', 'they',
+  'them', 'its', 'about', 'there', 'their', 'will', 'into', 'also', 'more', 'some', 'than'
+]);
+
+// --- Helpers ---
+
+export const createConversation = (uid: string, plantId?: string, now: number = Date.now()): Conversation => ({
+  id: `conv-${now}`,
+  uid,
+  ...(plantId ? { plantId } : {}),
+  title: DEFAULT_CONVERSATION_TITLE,
+  titleGenerated: false,
+  createdAt: now,
+  updatedAt: now,
+  messageCount: 0,
+  keywords: []
+});
+
+export const extractKeywords = (text: string) =>
+  Array.from(new Set(
+    text.toLowerCase()
+      .normalize('NFKD').replace(/[\u0300-\u036f]/g, '') // Fold accents so "dernière" matches "derniere"
+      .split(/[^a-z0-9]+/)
+      .filter(w => w.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(w))
+  ));
+
+/**
+ * Conversation fields to merge after a message is added. Newer keywords win
+ * when the cap is reached.
+ */
+export const conversationUpdateForMessage = (conversation: Conversation, message: ChatMessage): Partial<Conversation> => {
+  const merged = Array.from(new Set([...extractKeywords(message.text), ...conversation.keywords]));
+  return {
+    updatedAt: message.timestamp,
+    messageCount: conversation.messageCount + 1,
+    preview: message.text.replace(/\s+/g, ' ').slice(0, PREVIEW_LENGTH),
+    keywords: merged.slice(0, MAX_KEYWORDS)
+  };
+};
+
+/**
+ * Filters conversations whose title or keywords contain every word of the
+ * query (prefix match), newest first.
+ */
+export const searchConversations = (conversations: Conversation[], searchQuery: string) => {
+  const terms = extractKeywords(searchQuery);
+  const rawTerms = searchQuery.trim().toLowerCase();
+  if (!rawTerms) return conversations;
+  return conversations.filter(c => {
+    const title = c.title.toLowerCase();
+    if (title.includes(rawTerms)) return true;
+    return terms.length > 0 && terms.every(t => title.includes(t) || c.keywords.some(k => k.startsWith(t)));
+  });
+};
+
+/**
+ * Asks the fast model for a short title. Falls back to the opening words of
+ * the first user message.
+ */
+export const generateConversationTitle = async (messages: ChatMessage[]) => {
+  const firstUser = messages.find(m => m.role === 'user')?.text || '';
+  const fallback = firstUser.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH) || DEFAULT_CONVERSATION_TITLE;
+  const transcript = messages.slice(0, 4).map(m => `${m.role}: ${m.text.slice(0, 500)}`).join('\n');
+  try {
+    const response = await getFastResponse(
+      `Write a title of at most 6 words for this plant-care conversation. Reply with the title only, no quotes or punctuation at the end.\n\n${transcript}`
+    );
+    const title = (response || '').split('\n')[0].replace(/^["'#*\s]+|["'*.\s]+$/g, '').slice(0, MAX_TITLE_LENGTH);
+    return title || fallback;
+  } catch (e) {
+    console.warn("Conversation title generation failed:", e);
+    return fallback;
+  }
+};
@@ -0,0 +1,120 @@
+import { CapturedImage, CareAction, DigestStats, GrowthReport, HealthStatus, Plant } from '../types';
+import { generateGrowthReport } from './geminiService';
+import { formatDateTime, selectReportSnapshots, toReportLogLine } from './reports';
+
+// --- Configuration Constants ---
+export const DIGEST_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+// --- Helpers ---
+
+/**
+ * Local midnight of the Monday starting the week that contains `timestamp`.
+ */
+export const getWeekStart = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+// Deterministic so two devices compiling the same week write the same document
+export const digestId = (plantId: string, weekStart: number) => `digest-${plantId}-${weekStart}`;
+
+/**
+ * Plants whose last completed week has no digest yet.
+ */
+export const findDueDigests = (plants: Plant[], reports: GrowthReport[], now: number = Date.now()) => {
+  const weekStart = getWeekStart(now) - DIGEST_PERIOD_MS;
+  const existing = new Set(reports.map(r => r.id));
+  return plants
+    .filter(p => p.createdAt < weekStart + DIGEST_PERIOD_MS && !existing.has(digestId(p.id, weekStart)))
+    .map(plant => ({ plant, weekStart }));
+};
+
+/**
+ * Statistics over a week of snapshots (any order) and care actions.
+ */
+export const computeDigestStats = (images: CapturedImage[], careActions: CareAction[]): DigestStats => {
+  const sorted = [...images].sort((a, b) => a.timestamp - b.timestamp);
+  const rated = sorted.filter(img => img.healthStatus);
+  const measured = sorted.filter(img => img.growthMetrics);
+
+  const healthTransitions: DigestStats['healthTransitions'] = [];
+  let previous: HealthStatus | undefined;
+  for (const img of rated) {
+    if (previous && img.healthStatus !== previous) {
+      healthTransitions.push({ from: previous, to: img.healthStatus!, timestamp: img.timestamp });
+    }
+    previous = img.healthStatus;
+  }
+
+  const careCounts: Record<string, number> = {};
+  for (const action of careActions) careCounts[action.type] = (careCounts[action.type] || 0) + 1;
+
+  const first = measured[0]?.growthMetrics;
+  const last = measured[measured.length - 1]?.growthMetrics;
+  return {
+    snapshotCount: sorted.length,
+    careCounts,
+    healthTransitions,
+    ...(rated.length > 0 ? { healthyShare: rated.filter(img => img.healthStatus === 'HEALTHY').length / rated.length } : {}),
+    ...(rated.length > 0 ? { latestHealth: rated[rated.length - 1].healthStatus } : {}),
+    ...(first && last && measured.length > 1 ? {
+      canopyChange: last.canopyArea - first.canopyArea,
+      greennessChange: last.greenness - first.greenness
+    } : {})
+  };
+};
+
+const toCareLogLine = (action: CareAction) =>
+  `CARE ${formatDateTime(action.timestamp)} | ${action.type} | ${action.title}${action.note ? ` | ${action.note}` : ''}`;
+
+/**
+ * Compiles the digest for one plant's week. Care actions are not tied to a
+ * plant, so every digest of the week includes all of them.
+ */
+export const createWeeklyDigest = async (
+  uid: string,
+  plant: Plant,
+  weekImages: CapturedImage[],
+  weekCareActions: CareAction[],
+  weekStart: number,
+  now: number = Date.now()
+): Promise<GrowthReport> => {
+  const weekEnd = weekStart + DIGEST_PERIOD_MS - 1;
+  const snapshots = selectReportSnapshots(weekImages, plant.id, weekStart, weekEnd);
+  const stats = computeDigestStats(snapshots, weekCareActions);
+
+  // Quiet weeks still get a digest so the history has no gaps, without spending a model call
+  const sections = snapshots.length === 0
+    ? { summary: 'No snapshots were captured this week.', trend: '', issues: [], recommendations: ['Check that the camera schedule is running.'] }
+    : await generateGrowthReport(
+        [...snapshots.map(toReportLogLine), ...weekCareActions.map(toCareLogLine)],
+        `${plant.name}${plant.species ? ` (${plant.species})` : ''}, weekly digest`
+      );
+
+  return {
+    id: digestId(plant.id, weekStart),
+    uid,
+    kind: 'digest',
+    plantId: plant.id,
+    plantName: plant.name,
+    rangeStart: weekStart,
+    rangeEnd: weekEnd,
+    snapshotCount: snapshots.length,
+    createdAt: now,
+    stats,
+    ...sections
+  };
+};
+
+/**
+ * Plain sentences suitable for text-to-speech.
+ */
+export const digestToSpeech = (digest: GrowthReport) => [
+  `Weekly digest for ${digest.plantName || 'your plants'}.`,
+  digest.summary,
+  digest.trend,
+  digest.issues.length ? `Issues: ${digest.issues.join('. ')}.` : '',
+  digest.recommendations.length ? `Recommendations: ${digest.recommendations.join('. ')}.` : ''
+].filter(Boolean).join(' ');
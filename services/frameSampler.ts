@@ -0,0 +1,173 @@
+// --- Configuration Constants ---
+export const SAMPLE_TICK_MS = 250; // How often the camera is checked for change
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+const BASE_INTERVAL_MS = 1000; // 1 fps, the previous fixed rate
+const BOOST_INTERVAL_MS = 500; // 2 fps while the view is changing
+const IDLE_INTERVAL_MS = 5000; // Keep-alive frame for a static scene
+const STATIC_DIFF = 0.02; // Mean grayscale difference below which frames count as identical
+const NEW_CONTENT_DIFF = 0.12; // Above this the user is pointing at something new
+const BOOST_HOLD_MS = 3000; // Stay boosted this long after the last big change
+const UPLINK_SHARE = 0.25; // Fraction of the uplink capacity video may use
+const RATE_WINDOW_MS = 5000;
+const CONGESTED_BUFFER_BYTES = 64 * 1024; // Socket backlog above which the link is saturated
+
+export type SamplerMode = 'idle' | 'normal' | 'boost';
+
+export interface SamplerStats {
+  fps: number; // Frames actually sent per second over the recent window
+  bytesPerSecond: number;
+  mode: SamplerMode;
+  skipped: number; // Frames the fixed 1 fps rate would have sent but were near-identical
+}
+
+export interface UplinkStats {
+  bytesPerSecond: number; // Bytes that actually left the browser per second over the recent window
+  capacity?: number; // Bytes per second the link carries; only known once sends back up
+}
+
+export interface UplinkMeter {
+  recordSent: (bytes: number, now?: number) => void;
+  reset: () => void; // A new connection starts with an empty socket buffer
+  getStats: (now?: number) => UplinkStats;
+}
+
+// Network Information API (Chromium only); not in the DOM typings
+interface NetworkInformation {
+  downlink?: number; // Mbps
+}
+
+export interface FrameSampler {
+  shouldSend: (signature: Uint8Array, now?: number) => boolean;
+  recordSent: (signature: Uint8Array, bytes: number, now?: number) => void;
+  getStats: (now?: number) => SamplerStats;
+}
+
+// --- Helpers ---
+
+/** Grayscale thumbnail of a frame, compared between frames to measure scene change. */
+export const frameSignature = (image: ImageData) => {
+  const { data } = image;
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+/** Mean absolute difference of two signatures, 0 (identical) to 1. */
+export const signatureDistance = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / (a.length * 255);
+};
+
+/**
+ * Bytes per second from the Network Information API's downlink estimate,
+ * where the browser has it. Only a rough stand-in for the uplink, used when
+ * the transport gives no way to measure it. Undefined means unknown.
+ */
+export const estimateBandwidth = (): number | undefined => {
+  const downlink = (navigator as Navigator & { connection?: NetworkInformation }).connection?.downlink;
+  return typeof downlink === 'number' && downlink > 0 ? downlink * 125000 : undefined;
+};
+
+/**
+ * Measures real send throughput from the bytes handed to the socket and its
+ * send buffer (`getBuffered`, undefined when the transport hides it). What
+ * left the browser is what was handed over minus the growth of the buffer.
+ * While the buffer stays near empty the link keeps up and its capacity is
+ * unknown; once data backs up, the drain rate is the capacity. Without a
+ * visible buffer the capacity falls back to `estimateBandwidth`.
+ */
+export const createUplinkMeter = (getBuffered: () => number | undefined): UplinkMeter => {
+  let total = 0;
+  let samples: { at: number; total: number; buffered: number }[] = [];
+
+  const sample = (now: number) => ({ at: now, total, buffered: getBuffered() ?? 0 });
+
+  return {
+    recordSent: (bytes, now = Date.now()) => {
+      total += bytes;
+      samples.push(sample(now));
+      // Keep one sample from before the window as the baseline
+      while (samples.length > 1 && samples[1].at < now - RATE_WINDOW_MS) samples.shift();
+    },
+    reset: () => { samples = []; },
+    getStats: (now = Date.now()) => {
+      const first = samples[0];
+      if (!first || now <= first.at) return { bytesPerSecond: 0 };
+      const buffered = getBuffered();
+      const drained = (total - (buffered ?? 0)) - (first.total - first.buffered);
+      const bytesPerSecond = Math.max(0, drained) / ((now - first.at) / 1000);
+      const capacity = buffered === undefined ? estimateBandwidth() : buffered > CONGESTED_BUFFER_BYTES ? bytesPerSecond : undefined;
+      return { bytesPerSecond, ...(capacity !== undefined ? { capacity } : {}) };
+    }
+  };
+};
+
+/**
+ * Decides which camera frames to send. A frame is compared with the last one
+ * sent: near-identical frames wait for the idle keep-alive, a big change
+ * boosts the rate for a few seconds, and the interval is stretched whenever
+ * the recent frame size would exceed the video share of the uplink capacity.
+ */
+export const createFrameSampler = (getBandwidth: () => number | undefined = estimateBandwidth): FrameSampler => {
+  let lastSignature: Uint8Array | null = null;
+  let lastSentAt = 0;
+  let boostUntil = 0;
+  let mode: SamplerMode = 'normal';
+  let skipped = 0;
+  let lastSkipAt = 0;
+  const sent: { at: number; bytes: number }[] = [];
+
+  const prune = (now: number) => {
+    while (sent.length && sent[0].at < now - RATE_WINDOW_MS) sent.shift();
+  };
+
+  const bandwidthInterval = () => {
+    const bandwidth = getBandwidth();
+    if (!bandwidth || sent.length === 0) return 0;
+    const meanBytes = sent.reduce((n, f) => n + f.bytes, 0) / sent.length;
+    return meanBytes / (bandwidth * UPLINK_SHARE) * 1000;
+  };
+
+  return {
+    shouldSend: (signature, now = Date.now()) => {
+      prune(now);
+      if (!lastSignature) return true;
+
+      const diff = signatureDistance(signature, lastSignature);
+      if (diff >= NEW_CONTENT_DIFF) boostUntil = now + BOOST_HOLD_MS;
+      mode = now < boostUntil ? 'boost' : diff < STATIC_DIFF ? 'idle' : 'normal';
+
+      const interval = Math.max(
+        mode === 'boost' ? BOOST_INTERVAL_MS : mode === 'idle' ? IDLE_INTERVAL_MS : BASE_INTERVAL_MS,
+        bandwidthInterval()
+      );
+      const due = now - lastSentAt >= interval;
+      // Counted against the old fixed rate, so at most one skip per base interval
+      if (!due && mode === 'idle' && now - Math.max(lastSentAt, lastSkipAt) >= BASE_INTERVAL_MS) {
+        skipped++;
+        lastSkipAt = now;
+      }
+      return due;
+    },
+    recordSent: (signature, bytes, now = Date.now()) => {
+      lastSignature = signature;
+      lastSentAt = now;
+      sent.push({ at: now, bytes });
+    },
+    getStats: (now = Date.now()) => {
+      prune(now);
+      const seconds = RATE_WINDOW_MS / 1000;
+      return {
+        fps: sent.length / seconds,
+        bytesPerSecond: sent.reduce((n, f) => n + f.bytes, 0) / seconds,
+        mode,
+        skipped
+      };
+    }
+  };
+};
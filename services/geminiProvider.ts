@@ -0,0 +1,549 @@
+
+import { 
+  GoogleGenAI, 
+  Modality, 
+  LiveServerMessage, 
+  Type,
+  FunctionDeclaration,
+  ThinkingLevel
+} from "@google/genai";
+import { parseStructuredAnalysis, parseAnalysisText, parseReportSections, parseDiagnosis } from "./analysisParser";
+import { CARE_TYPES } from "./careReminders";
+import {
+  AIProvider,
+  ChatHistoryEntry,
+  ChatOptions,
+  ChatStreamChunk,
+  LiveSessionHandlers,
+  LiveToolName,
+  runLiveTool,
+  CHAT_SYSTEM_INSTRUCTION,
+  LiveConnectOptions,
+  liveSystemInstruction,
+  snapshotAnalysisPrompt,
+  diagnosisPrompt,
+  growthReportPrompt,
+  splitDataUrl,
+  toProviderError
+} from "./aiProvider";
+
+// --- Configuration Constants ---
+const MODEL_CHAT_PRO = 'gemini-2.5-flash';
+const MODEL_FAST_LITE = 'gemini-2.5-flash';
+const MODEL_SEARCH = 'gemini-2.5-flash';
+const MODEL_MAPS = 'gemini-2.5-flash';
+const MODEL_VISION = 'gemini-2.5-flash';
+const MODEL_VISION_PRO = 'gemini-2.5-pro';
+const MODEL_LIVE = 'gemini-2.5-flash';
+const MODEL_TTS = 'gemini-2.5-flash-preview-tts';
+const MODEL_IMAGE = 'gemini-2.5-flash-image';
+
+// --- Instance Helper ---
+const getAI = () => {
+  // Try Vite-style meta.env first (for local/Android builds), then platform-injected process.env
+  const apiKey = (import.meta as any).env?.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+  
+  if (!apiKey) {
+    console.error("Gemini API Key is missing. Neither VITE_GEMINI_API_KEY nor process.env.GEMINI_API_KEY is defined.");
+    throw new Error("Neural Link Offline: API Key not detected. Please check your system configuration.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// --- Tool Declarations ---
+const liveToolDeclarations: Record<LiveToolName, FunctionDeclaration> = {
+  captureSnapshot: {
+    name: 'captureSnapshot',
+    description: 'Capture a photo or snapshot of the current plant/environment immediately when the user asks to take a picture, scan, or capture.',
+  },
+  logCareAction: {
+    name: 'logCareAction',
+    description: 'Record a care task the user says they just did, such as watering or fertilizing. Advances the matching reminder.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        type: { type: Type.STRING, enum: CARE_TYPES, description: 'Kind of care; use custom for anything else.' },
+        note: { type: Type.STRING, description: 'Optional detail, e.g. amount of water or fertilizer used.' }
+      },
+      required: ['type']
+    }
+  },
+  setReminder: {
+    name: 'setReminder',
+    description: 'Create or update a recurring care reminder when the user asks to be reminded.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        type: { type: Type.STRING, enum: CARE_TYPES },
+        frequencyDays: { type: Type.NUMBER, description: 'Days between reminders.' },
+        title: { type: Type.STRING, description: 'Short label, only needed for custom reminders.' }
+      },
+      required: ['type']
+    }
+  },
+  getPlantHistory: {
+    name: 'getPlantHistory',
+    description: 'Look up recent snapshot analyses of the active plant, newest first, to compare with what is visible now.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        limit: { type: Type.NUMBER, description: 'Number of snapshots to return, at most 20.' }
+      }
+    }
+  },
+  startMonitoring: {
+    name: 'startMonitoring',
+    description: 'Start scheduled time-lapse monitoring when the user asks to begin watching or recording the plant.',
+  },
+  stopMonitoring: {
+    name: 'stopMonitoring',
+    description: 'Stop scheduled time-lapse monitoring.',
+  },
+  switchCamera: {
+    name: 'switchCamera',
+    description: 'Switch between the front and back camera, or to the one the user names.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        facing: { type: Type.STRING, enum: ['user', 'environment'], description: 'user is the front camera, environment the back camera. Omit to toggle.' }
+      }
+    }
+  }
+};
+
+// --- Response Schemas ---
+const plantAnalysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Concise botanical observation of the snapshot.' },
+    healthStatus: { type: Type.STRING, enum: ['HEALTHY', 'STRESSED', 'CRITICAL'] },
+    growthStage: { type: Type.STRING, description: 'e.g. germination, seedling, vegetative, flowering, fruiting.' },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short event tags such as "new leaf" or "wilting".' },
+    advice: { type: Type.STRING, description: 'One actionable care recommendation.' },
+    confidence: { type: Type.NUMBER, description: 'Confidence in this assessment, 0-100.' },
+    detectedIssues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          box: {
+            type: Type.OBJECT,
+            description: 'Region of the issue on a 0-1000 grid.',
+            properties: {
+              ymin: { type: Type.NUMBER },
+              xmin: { type: Type.NUMBER },
+              ymax: { type: Type.NUMBER },
+              xmax: { type: Type.NUMBER }
+            },
+            required: ['ymin', 'xmin', 'ymax', 'xmax']
+          }
+        },
+        required: ['label']
+      }
+    }
+  },
+  required: ['summary', 'healthStatus', 'growthStage', 'tags', 'confidence', 'detectedIssues'],
+  propertyOrdering: ['summary', 'healthStatus', 'growthStage', 'tags', 'advice', 'confidence', 'detectedIssues']
+};
+
+const growthReportSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Overall condition of the plant over the period.' },
+    trend: { type: Type.STRING, description: 'How health, growth stage and canopy changed over time.' },
+    issues: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Problems observed, most serious first.' },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Actionable care steps.' }
+  },
+  required: ['summary', 'trend', 'issues', 'recommendations'],
+  propertyOrdering: ['summary', 'trend', 'issues', 'recommendations']
+};
+
+const diagnosisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Plain-language diagnosis of what is visible.' },
+    primaryCause: { type: Type.STRING, description: 'Most likely overall cause; omit when healthy.' },
+    confidence: { type: Type.NUMBER, description: 'Confidence in the diagnosis, 0-100.' },
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          category: { type: Type.STRING, enum: ['disease', 'pest', 'nutrient', 'environmental', 'other'] },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          evidence: { type: Type.STRING, description: 'Visual cues supporting this finding.' },
+          box: {
+            type: Type.OBJECT,
+            description: 'Region on a 0-1000 grid.',
+            properties: {
+              ymin: { type: Type.NUMBER },
+              xmin: { type: Type.NUMBER },
+              ymax: { type: Type.NUMBER },
+              xmax: { type: Type.NUMBER }
+            },
+            required: ['ymin', 'xmin', 'ymax', 'xmax']
+          },
+          point: {
+            type: Type.OBJECT,
+            description: 'Location on a 0-1000 grid, used instead of a box for small findings.',
+            properties: {
+              y: { type: Type.NUMBER },
+              x: { type: Type.NUMBER }
+            },
+            required: ['y', 'x']
+          }
+        },
+        required: ['label', 'category', 'severity', 'evidence']
+      }
+    },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Treatment and care steps, most urgent first.' }
+  },
+  required: ['summary', 'confidence', 'regions', 'recommendations'],
+  propertyOrdering: ['summary', 'primaryCause', 'confidence', 'regions', 'recommendations']
+};
+
+// --- Chat ---
+
+/**
+ * Creates a chat session and the parts of the new message. The chat config is
+ * returned too because per-request configs (needed for abort signals) do not
+ * inherit it.
+ */
+const prepareChat = (history: ChatHistoryEntry[], newMessage: string, options: ChatOptions) => {
+  const ai = getAI();
+  
+  let modelName = MODEL_CHAT_PRO;
+  let config: any = {};
+
+  if (options.useThinking) {
+    modelName = 'gemini-2.5-pro'; // Using pro for thinking as flash might not support it well, or revert to MODEL_CHAT_PRO
+    config.thinkingConfig = { thinkingLevel: ThinkingLevel.HIGH, includeThoughts: true };
+  } else if (options.useSearch) {
+    modelName = MODEL_SEARCH;
+    config.tools = [{ googleSearch: {} }];
+  } else if (options.useMaps) {
+    modelName = MODEL_MAPS;
+    config.tools = [{ googleMaps: {} }];
+    if (options.location) {
+      config.toolConfig = {
+        retrievalConfig: {
+          latLng: {
+            latitude: options.location.lat,
+            longitude: options.location.lng
+          }
+        }
+      };
+    }
+  }
+
+  config = { ...config, systemInstruction: CHAT_SYSTEM_INSTRUCTION };
+  const chat = ai.chats.create({
+    model: modelName,
+    config,
+    history: history.map(h => ({
+      role: h.role === 'model' ? 'model' : 'user',
+      parts: [{ text: h.text }]
+    }))
+  });
+
+  const messageParts: any[] = [{ text: newMessage }];
+  for (const image of options.images || []) {
+    messageParts.push({ inlineData: splitDataUrl(image) });
+  }
+
+  return { chat, config, messageParts };
+};
+
+const sendMessage: AIProvider['sendMessage'] = async (history, newMessage, options = {}) => {
+  const { chat, messageParts } = prepareChat(history, newMessage, options);
+
+  try {
+    const response = await chat.sendMessage({ message: messageParts });
+    
+    return {
+      text: response.text || '',
+      candidates: response.candidates || []
+    };
+  } catch (error: any) {
+    console.error("Chat Error:", error);
+    throw toProviderError(error, 'Neural Link Failed');
+  }
+};
+
+/**
+ * Yields answer and thinking-summary deltas as they arrive. Aborting
+ * `signal` ends the stream early; the generator then returns without
+ * throwing so callers can keep partial text.
+ */
+async function* streamMessage(
+  history: ChatHistoryEntry[], 
+  newMessage: string,
+  options: ChatOptions & { signal?: AbortSignal } = {}
+): AsyncGenerator<ChatStreamChunk> {
+  const { chat, config, messageParts } = prepareChat(history, newMessage, options);
+
+  try {
+    const stream = await chat.sendMessageStream({
+      message: messageParts,
+      config: { ...config, abortSignal: options.signal }
+    });
+    for await (const response of stream) {
+      if (options.signal?.aborted) return;
+      const chunk: ChatStreamChunk = { candidates: response.candidates };
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (!part.text) continue;
+        if (part.thought) chunk.thought = (chunk.thought || '') + part.text;
+        else chunk.text = (chunk.text || '') + part.text;
+      }
+      yield chunk;
+    }
+  } catch (error: any) {
+    if (options.signal?.aborted) return;
+    console.error("Chat Stream Error:", error);
+    throw toProviderError(error, 'Neural Link Failed');
+  }
+}
+
+// --- Vision & Generation ---
+
+const generateImage: AIProvider['generateImage'] = async (prompt, aspectRatio = "1:1") => {
+  const ai = getAI();
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL_IMAGE,
+      contents: {
+        parts: [{ text: prompt }]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: aspectRatio as any,
+          imageSize: "1K"
+        }
+      }
+    });
+    
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return { imageUrl: `data:image/png;base64,${part.inlineData.data}` };
+      }
+    }
+    throw new Error("No image generated.");
+  } catch (error: any) {
+    console.error("Image Generation Error:", error);
+    throw new Error(`Visual synthesis failed: ${error.message || 'Unknown error'}`);
+  }
+};
+
+const analyzeImage: AIProvider['analyzeImage'] = async (base64Data, prompt, plantType) => {
+  const ai = getAI();
+  try {
+    const finalPrompt = plantType ? `[PLANT SPECIES: ${plantType}] ${prompt}` : prompt;
+    const response = await ai.models.generateContent({
+      model: MODEL_VISION,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: splitDataUrl(base64Data).data } },
+          { text: finalPrompt }
+        ]
+      }
+    });
+    return response.text || '';
+  } catch (error: any) {
+    console.error("Analysis Error:", error);
+    throw toProviderError(error, 'Optical Analysis Failed');
+  }
+};
+
+/**
+ * Structured snapshot analysis. Requests JSON matching `plantAnalysisSchema`
+ * and validates it; if the model still replies with free text, the legacy
+ * bracket-tag parser is used instead.
+ */
+const analyzePlantSnapshot: AIProvider['analyzePlantSnapshot'] = async (base64Data, plantType, options = {}) => {
+  const ai = getAI();
+  try {
+    const response = await ai.models.generateContent({
+      model: options.thorough ? MODEL_VISION_PRO : MODEL_VISION,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: splitDataUrl(base64Data).data } },
+          { text: snapshotAnalysisPrompt(plantType) }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: plantAnalysisSchema,
+        ...(options.thorough ? { thinkingConfig: { thinkingLevel: ThinkingLevel.HIGH } } : {})
+      }
+    });
+    const text = response.text || '';
+    try {
+      return parseStructuredAnalysis(text);
+    } catch {
+      return parseAnalysisText(text);
+    }
+  } catch (error: any) {
+    console.error("Analysis Error:", error);
+    throw toProviderError(error, 'Optical Analysis Failed');
+  }
+};
+
+const generateGrowthReport: AIProvider['generateGrowthReport'] = async (logs, subject) => {
+  const ai = getAI();
+  const response = await ai.models.generateContent({
+    model: MODEL_CHAT_PRO,
+    contents: growthReportPrompt(logs, subject),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: growthReportSchema
+    }
+  });
+
+  return parseReportSections(response.text || '');
+};
+
+/**
+ * Localized diagnosis on the pro model, which places small lesions and
+ * pests more reliably than the fast vision model.
+ */
+const diagnoseSnapshot: AIProvider['diagnoseSnapshot'] = async (base64Data, plantType) => {
+  const ai = getAI();
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL_VISION_PRO,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: splitDataUrl(base64Data).data } },
+          { text: diagnosisPrompt(plantType) }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: diagnosisSchema
+      }
+    });
+    return parseDiagnosis(response.text || '');
+  } catch (error: any) {
+    console.error("Diagnosis Error:", error);
+    throw toProviderError(error, 'Diagnosis Failed');
+  }
+};
+
+const getFastResponse: AIProvider['getFastResponse'] = async (text) => {
+  const ai = getAI();
+  const response = await ai.models.generateContent({
+    model: MODEL_FAST_LITE,
+    contents: text
+  });
+  return response.text || '';
+};
+
+const generateSpeech: AIProvider['generateSpeech'] = async (text) => {
+  const ai = getAI();
+  const response = await ai.models.generateContent({
+    model: MODEL_TTS,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Fenrir has a deep, calm voice suitable for nature
+        },
+      },
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  return base64Audio;
+};
+
+// --- Live API ---
+
+const connectLive: AIProvider['connectLive'] = async ({ onAudioData, onClose, onError, onTranscript, tools, onResumptionHandle, onGoAway }: LiveSessionHandlers, { context, resumeHandle }: LiveConnectOptions = {}) => {
+  const ai = getAI();
+  const functionDeclarations = (Object.keys(liveToolDeclarations) as LiveToolName[])
+    .filter(name => tools?.[name])
+    .map(name => liveToolDeclarations[name]);
+
+  const sessionPromise = ai.live.connect({
+    model: MODEL_LIVE,
+    callbacks: {
+      onopen: () => console.log('Live Session Opened'),
+      onmessage: async (message: LiveServerMessage) => {
+        // Handle Audio
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) {
+          onAudioData(base64Audio);
+        }
+
+        // Handle Transcriptions
+        if (message.serverContent?.outputTranscription?.text) {
+           onTranscript(message.serverContent.outputTranscription.text, false);
+        }
+        if (message.serverContent?.inputTranscription?.text) {
+           onTranscript(message.serverContent.inputTranscription.text, true);
+        }
+
+        // Handle Session Lifecycle
+        const resumption = message.sessionResumptionUpdate;
+        if (resumption?.resumable && resumption.newHandle) onResumptionHandle?.(resumption.newHandle);
+        if (message.goAway) onGoAway?.();
+
+        // Handle Tool Calls
+        if (message.toolCall?.functionCalls?.length) {
+          const functionResponses = await Promise.all(message.toolCall.functionCalls.map(async fc => ({
+            id: fc.id,
+            name: fc.name,
+            response: await runLiveTool(tools, fc.name, fc.args)
+          })));
+          const session = await sessionPromise;
+          session.sendToolResponse({ functionResponses });
+        }
+      },
+      onclose: () => onClose(),
+      onerror: (e) => onError(e),
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } // Kore has a gentle voice
+      },
+      systemInstruction: liveSystemInstruction(context),
+      tools: functionDeclarations.length ? [{ functionDeclarations }] : undefined,
+      sessionResumption: { handle: resumeHandle } // Also asks the server to send resumption handles
+    }
+  });
+
+  const session = await sessionPromise;
+  // The SDK keeps its browser socket private (`BrowserWebSocket.ws` as of the pinned 1.46.0); its send buffer is
+  // the only view of uplink congestion. If an SDK update moves it, bufferedAmount reports undefined and the
+  // frame sampler falls back to the downlink estimate, which is expected but worth noticing, hence the warning.
+  const socket = (session.conn as { ws?: unknown }).ws;
+  if (!(socket instanceof WebSocket)) console.warn("Live socket not reachable; uplink capacity will be estimated.");
+  return {
+    sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+    close: () => session.close(),
+    bufferedAmount: () => socket instanceof WebSocket ? socket.bufferedAmount : undefined
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: { search: true, maps: true, thinking: true, speech: true, imageGeneration: true, live: true },
+  sendMessage,
+  streamMessage,
+  analyzeImage,
+  analyzePlantSnapshot,
+  generateGrowthReport,
+  diagnoseSnapshot,
+  getFastResponse,
+  generateSpeech,
+  generateImage,
+  connectLive
+};
@@ -1,211 +1,95 @@
-
-import { 
-  GoogleGenAI, 
-  Modality, 
-  LiveServerMessage, 
-  Type,
-  FunctionDeclaration,
-  ThinkingLevel
-} from "@google/genai";
-
-// --- Configuration Constants ---
-const MODEL_CHAT_PRO = 'gemini-2.5-flash';
-const MODEL_FAST_LITE = 'gemini-2.5-flash';
-const MODEL_SEARCH = 'gemini-2.5-flash';
-const MODEL_MAPS = 'gemini-2.5-flash';
-const MODEL_VISION = 'gemini-2.5-flash';
-const MODEL_LIVE = 'gemini-2.5-flash';
-const MODEL_TTS = 'gemini-2.5-flash-preview-tts';
-const MODEL_IMAGE = 'gemini-2.5-flash-image';
-
-// --- Instance Helper ---
-const getAI = () => {
-  // Try Vite-style meta.env first (for local/Android builds), then platform-injected process.env
-  const apiKey = (import.meta as any).env?.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    console.error("Gemini API Key is missing. Neither VITE_GEMINI_API_KEY nor process.env.GEMINI_API_KEY is defined.");
-    throw new Error("Neural Link Offline: API Key not detected. Please check your system configuration.");
+import { Diagnosis, PlantAnalysis } from "../types";
+import {
+  AIProvider,
+  AIProviderId,
+  AnalysisOptions,
+  ChatHistoryEntry,
+  ChatOptions,
+  ChatStreamChunk,
+  LiveConnectOptions,
+  LiveSessionHandlers,
+  LiveToolHandlers,
+  OpenAICompatibleConfig
+} from "./aiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+import { mockProvider } from "./mockProvider";
+
+export type { ChatOptions, ChatStreamChunk, LiveContext, LiveConnectOptions, LiveToolHandlers } from "./aiProvider";
+
+// --- Provider Registry ---
+
+let activeProvider: AIProvider = geminiProvider;
+
+/**
+ * Selects the backend used by every function below. Called whenever the
+ * user's settings change; Gemini is used until then.
+ */
+export const configureAIProvider = (settings: { aiProvider?: AIProviderId; openAICompatible?: OpenAICompatibleConfig }) => {
+  switch (settings.aiProvider) {
+    case 'openai':
+      activeProvider = createOpenAIProvider(settings.openAICompatible);
+      break;
+    case 'mock':
+      activeProvider = mockProvider;
+      break;
+    default:
+      activeProvider = geminiProvider;
   }
-  return new GoogleGenAI({ apiKey });
 };
 
-// --- Tool Declarations ---
-const captureSnapshotTool: FunctionDeclaration = {
-  name: 'captureSnapshot',
-  description: 'Capture a photo or snapshot of the current plant/environment immediately when the user asks to take a picture, scan, or capture.',
-};
+export const getAIProvider = () => activeProvider;
 
 // --- API Functions ---
 
-export const sendMessage = async (
-  history: { role: string; text: string }[], 
+export const sendMessage = (
+  history: ChatHistoryEntry[], 
   newMessage: string,
-  options: {
-    useThinking?: boolean;
-    useSearch?: boolean;
-    useMaps?: boolean;
-    location?: { lat: number; lng: number };
-    image?: string; // Base64 image data
-  } = {}
-): Promise<{ text: string; candidates: any[] }> => {
-  const ai = getAI();
-  
-  let modelName = MODEL_CHAT_PRO;
-  let config: any = {};
-
-  if (options.useThinking) {
-    modelName = 'gemini-2.5-pro'; // Using pro for thinking as flash might not support it well, or revert to MODEL_CHAT_PRO
-    config.thinkingConfig = { thinkingLevel: ThinkingLevel.HIGH };
-  } else if (options.useSearch) {
-    modelName = MODEL_SEARCH;
-    config.tools = [{ googleSearch: {} }];
-  } else if (options.useMaps) {
-    modelName = MODEL_MAPS;
-    config.tools = [{ googleMaps: {} }];
-    if (options.location) {
-      config.toolConfig = {
-        retrievalConfig: {
-          latLng: {
-            latitude: options.location.lat,
-            longitude: options.location.lng
-          }
-        }
-      };
-    }
-  }
-
-  const chat = ai.chats.create({
-    model: modelName,
-    config: {
-      ...config,
-      systemInstruction: "You are Gemma, an expert AI botanist. You monitor plant growth, diagnose health issues, and offer gardening advice. IMPORTANT: You CAN see and analyze images when the user provides them. If the user asks about an image, analyze the image data provided in the message. Be precise and helpful.",
-    },
-    history: history.map(h => ({
-      role: h.role === 'model' ? 'model' : 'user',
-      parts: [{ text: h.text }]
-    }))
-  });
-
-  try {
-    let messageParts: any[] = [{ text: newMessage }];
-    
-    if (options.image) {
-      const cleanBase64 = options.image.split(',')[1];
-      messageParts.push({ inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } });
-    }
-
-    const response = await chat.sendMessage({ message: messageParts });
-    
-    return {
-      text: response.text,
-      candidates: response.candidates
-    };
-  } catch (error: any) {
-    console.error("Chat Error:", error);
-    if (error.message?.includes('API_KEY_INVALID')) throw new Error("Invalid API Key. Please check your configuration.");
-    if (error.message?.includes('quota')) throw new Error("API Quota Exceeded. Please try again later.");
-    throw new Error(`Neural Link Failed: ${error.message || 'Unknown network error'}`);
-  }
-};
-
-export const generateImage = async (prompt: string, aspectRatio: string = "1:1"): Promise<{ imageUrl: string }> => {
-  const ai = getAI();
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_IMAGE,
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio as any,
-          imageSize: "1K"
-        }
-      }
-    });
-    
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return { imageUrl: `data:image/png;base64,${part.inlineData.data}` };
-      }
-    }
-    throw new Error("No image generated.");
-  } catch (error: any) {
-    console.error("Image Generation Error:", error);
-    throw new Error(`Visual synthesis failed: ${error.message || 'Unknown error'}`);
-  }
-};
+  options: ChatOptions = {}
+): Promise<{ text: string; candidates: any[] }> => activeProvider.sendMessage(history, newMessage, options);
+
+/**
+ * Streaming variant of `sendMessage`. Yields answer and thinking-summary
+ * deltas as they arrive. Aborting `signal` ends the stream early; the
+ * generator then returns without throwing so callers can keep partial text.
+ */
+export const streamMessage = (
+  history: ChatHistoryEntry[], 
+  newMessage: string,
+  options: ChatOptions & { signal?: AbortSignal } = {}
+): AsyncGenerator<ChatStreamChunk> => activeProvider.streamMessage(history, newMessage, options);
 
-export const analyzeImage = async (base64Data: string, prompt: string, plantType?: string) => {
-  const ai = getAI();
-  try {
-    const cleanBase64 = base64Data.split(',')[1];
-    const finalPrompt = plantType ? `[PLANT SPECIES: ${plantType}] ${prompt}` : prompt;
-    const response = await ai.models.generateContent({
-      model: MODEL_VISION,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-          { text: finalPrompt }
-        ]
-      }
-    });
-    return response.text;
-  } catch (error: any) {
-    console.error("Analysis Error:", error);
-    if (error.message?.includes('API_KEY_INVALID')) throw new Error("Invalid API Key. Please check your configuration.");
-    if (error.message?.includes('quota')) throw new Error("API Quota Exceeded. Please try again later.");
-    throw new Error(`Optical Analysis Failed: ${error.message || 'Unknown network error'}`);
-  }
-};
+export const generateImage = (prompt: string, aspectRatio: string = "1:1"): Promise<{ imageUrl: string }> =>
+  activeProvider.generateImage(prompt, aspectRatio);
 
-export const generateGrowthReport = async (logs: string[]) => {
-  const ai = getAI();
-  const prompt = `
-  SYSTEM: You are Gemma, an expert AI Botanist.
-  TASK: Analyze the following plant observation logs and generate a concise growth progress report. Highlight health status, growth rate, and any care recommendations.
-  TONE: Scientific, encouraging, precise.
-  FORMAT: Plain text, no markdown symbols like ** or #.
-  LOGS:
-  ${logs.join('\n')}
-  `;
+export const analyzeImage = (base64Data: string, prompt: string, plantType?: string) =>
+  activeProvider.analyzeImage(base64Data, prompt, plantType);
 
-  const response = await ai.models.generateContent({
-    model: MODEL_CHAT_PRO,
-    contents: prompt
-  });
+/**
+ * Structured snapshot analysis, validated into a `PlantAnalysis` by the
+ * active provider and tagged as a cloud result.
+ */
+// Remote providers count as cloud unless they set their own source
+export const analyzePlantSnapshot = async (base64Data: string, plantType?: string, options?: AnalysisOptions): Promise<PlantAnalysis> => ({
+  source: 'cloud',
+  ...await activeProvider.analyzePlantSnapshot(base64Data, plantType, options)
+});
 
-  return response.text;
-};
+export const generateGrowthReport = (logs: string[], subject?: string) => activeProvider.generateGrowthReport(logs, subject);
 
-export const getFastResponse = async (text: string) => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST_LITE,
-    contents: text
-  });
-  return response.text;
-};
+/**
+ * Localized disease and pest diagnosis, stamped with the provider and time
+ * so the saved evidence can be traced.
+ */
+export const diagnoseSnapshot = async (base64Data: string, plantType?: string): Promise<Diagnosis> => ({
+  ...await activeProvider.diagnoseSnapshot(base64Data, plantType),
+  provider: activeProvider.id,
+  diagnosedAt: Date.now()
+});
 
-export const generateSpeech = async (text: string) => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: MODEL_TTS,
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Fenrir has a deep, calm voice suitable for nature
-        },
-      },
-    },
-  });
+export const getFastResponse = (text: string) => activeProvider.getFastResponse(text);
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  return base64Audio;
-};
+export const generateSpeech = (text: string) => activeProvider.generateSpeech(text);
 
 // --- Live API Helpers ---
 
@@ -273,66 +157,6 @@ export function blobToBase64(blob: Blob): Promise<string> {
 }
 
 export const connectToLiveAPI = async (
-  onAudioData: (base64: string) => void,
-  onClose: () => void,
-  onError: (err: any) => void,
-  onTranscript: (text: string, isUser: boolean) => void,
-  onCaptureTrigger?: () => void
-) => {
-  const ai = getAI();
-  
-  const sessionPromise = ai.live.connect({
-    model: MODEL_LIVE,
-    callbacks: {
-      onopen: () => console.log('Live Session Opened'),
-      onmessage: async (message: LiveServerMessage) => {
-        // Handle Audio
-        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-        if (base64Audio) {
-          onAudioData(base64Audio);
-        }
-
-        // Handle Transcriptions
-        if (message.serverContent?.outputTranscription?.text) {
-           onTranscript(message.serverContent.outputTranscription.text, false);
-        }
-        if (message.serverContent?.inputTranscription?.text) {
-           onTranscript(message.serverContent.inputTranscription.text, true);
-        }
-
-        // Handle Tool Calls
-        if (message.toolCall) {
-          for (const fc of message.toolCall.functionCalls) {
-            if (fc.name === 'captureSnapshot') {
-              console.log('Voice Command: Capture Snapshot Triggered');
-              if (onCaptureTrigger) onCaptureTrigger();
-              
-              const session = await sessionPromise;
-              session.sendToolResponse({
-                functionResponses: [{
-                  id: fc.id,
-                  name: fc.name,
-                  response: { result: "Snapshot captured successfully." }
-                }]
-              });
-            }
-          }
-        }
-      },
-      onclose: () => onClose(),
-      onerror: (e) => onError(e),
-    },
-    config: {
-      responseModalities: [Modality.AUDIO],
-      inputAudioTranscription: {},
-      outputAudioTranscription: {},
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } // Kore has a gentle voice
-      },
-      systemInstruction: "You are Gemma, an expert botanist AI assistant connected to a live video feed. Your job is to ANALYZE the plant life in the video in REAL-TIME. 1. Identify the plant and its current growth stage (germination, vegetative, flowering, etc.). 2. Detect any health issues like wilting, pests, or discoloration. 3. Provide immediate botanical advice to the user. Speak naturally and concisely. TRANSLATION: If the user speaks in a language other than English, translate your response to that language and provide a concise English summary in the transcription.",
-      tools: [{ functionDeclarations: [captureSnapshotTool] }]
-    }
-  });
-
-  return sessionPromise;
-};
+  handlers: LiveSessionHandlers,
+  options?: LiveConnectOptions
+) => activeProvider.connectLive(handlers, options);
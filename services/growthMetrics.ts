@@ -0,0 +1,135 @@
+import { BoundingBox, CapturedImage, GrowthMetrics } from '../types';
+import { loadImage } from './imageUtils';
+
+// --- Configuration Constants ---
+const SAMPLE_MAX_SIZE = 320; // Metrics are ratios, so a small sample is accurate enough
+const EXG_THRESHOLD = 0.08; // Excess green (2g - r - b on chromatic coordinates)
+const MIN_SATURATION = 0.18;
+const MIN_VALUE = 0.12;
+const FOLIAGE_HUE_RANGE: [number, number] = [35, 170]; // Degrees; includes yellowing and blue-green leaves
+const MIN_ROW_COVERAGE = 0.01; // Rows with less foliage than this are ignored when measuring height
+export const HUE_BIN_DEGREES = 30;
+const HUE_BINS = 360 / HUE_BIN_DEGREES;
+
+// --- Segmentation ---
+
+export const rgbToHsv = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h = (h * 60 + 360) % 360;
+  }
+  return { h, s: max === 0 ? 0 : d / max, v: max / 255 };
+};
+
+/**
+ * Classifies a pixel as foliage with an excess-green index, widened by an
+ * HSV hue band so yellowing leaves still count as canopy.
+ */
+export const isFoliage = (r: number, g: number, b: number) => {
+  const sum = r + g + b;
+  if (sum === 0) return false;
+  const exg = (2 * g - r - b) / sum;
+  const { h, s, v } = rgbToHsv(r, g, b);
+  if (v < MIN_VALUE) return false;
+  return exg > EXG_THRESHOLD || (s > MIN_SATURATION && h >= FOLIAGE_HUE_RANGE[0] && h <= FOLIAGE_HUE_RANGE[1]);
+};
+
+/**
+ * Computes metrics from raw RGBA pixels. `scale` converts sample pixels back
+ * to full-resolution pixels along one axis.
+ */
+export const computeGrowthMetrics = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: number = 1,
+  roi?: BoundingBox
+): GrowthMetrics => {
+  const x0 = roi ? Math.floor(roi.x * width) : 0;
+  const y0 = roi ? Math.floor(roi.y * height) : 0;
+  const x1 = roi ? Math.min(width, Math.ceil((roi.x + roi.width) * width)) : width;
+  const y1 = roi ? Math.min(height, Math.ceil((roi.y + roi.height) * height)) : height;
+  const regionWidth = Math.max(1, x1 - x0);
+
+  let foliage = 0;
+  let gccSum = 0;
+  let top = -1;
+  let bottom = -1;
+  const bins = new Array(HUE_BINS).fill(0);
+
+  for (let y = y0; y < y1; y++) {
+    let rowCount = 0;
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      if (!isFoliage(r, g, b)) continue;
+      rowCount++;
+      gccSum += g / (r + g + b);
+      bins[Math.min(HUE_BINS - 1, Math.floor(rgbToHsv(r, g, b).h / HUE_BIN_DEGREES))]++;
+    }
+    foliage += rowCount;
+    if (rowCount / regionWidth >= MIN_ROW_COVERAGE) {
+      if (top === -1) top = y;
+      bottom = y;
+    }
+  }
+
+  const regionPixels = regionWidth * Math.max(1, y1 - y0);
+  return {
+    canopyArea: foliage / regionPixels,
+    canopyPixels: Math.round(foliage * scale * scale),
+    heightPx: top === -1 ? 0 : Math.round((bottom - top + 1) * scale),
+    greenness: foliage > 0 ? gccSum / foliage : 0,
+    hueHistogram: bins.map(n => (foliage > 0 ? n / foliage : 0)),
+    ...(roi ? { roi } : {}),
+    computedAt: Date.now()
+  };
+};
+
+/**
+ * Measures a snapshot image. `src` must be same-origin or a data URL so the
+ * canvas stays readable.
+ */
+export const measureImage = async (src: string, roi?: BoundingBox): Promise<GrowthMetrics> => {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, SAMPLE_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return computeGrowthMetrics(data, canvas.width, canvas.height, 1 / ratio, roi);
+};
+
+const sameRoi = (a?: BoundingBox, b?: BoundingBox) =>
+  a === b || (!!a && !!b && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height);
+
+/**
+ * True when a snapshot has no metrics yet or they were measured over a
+ * different region than the plant's current ROI.
+ */
+export const needsGrowthMetrics = (img: CapturedImage, roi?: BoundingBox) =>
+  !img.growthMetrics || !sameRoi(img.growthMetrics.roi, roi);
+
+/**
+ * Chart-ready series, oldest first. Canopy and greenness are percentages,
+ * height is in pixels.
+ */
+export const toGrowthSeries = (images: CapturedImage[]) =>
+  images
+    .filter(img => img.growthMetrics)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(img => ({
+      date: new Date(img.timestamp),
+      canopy: img.growthMetrics!.canopyArea * 100,
+      greenness: img.growthMetrics!.greenness * 100,
+      height: img.growthMetrics!.heightPx
+    }));
@@ -0,0 +1,249 @@
+import { AnalysisSource, CapturedImage, HealthStatus } from '../types';
+import { loadSnapshotDataUrl } from './snapshotStorage';
+import { createZip, ZipEntry } from './zip';
+
+// --- Configuration Constants ---
+export const HEALTH_LABELS: HealthStatus[] = ['HEALTHY', 'STRESSED', 'CRITICAL'];
+
+// --- Labels ---
+
+export interface FinalLabels {
+  healthStatus?: HealthStatus;
+  growthStage?: string;
+  tags: string[];
+  source: 'human' | 'ai';
+}
+
+/**
+ * Reviewer labels where present, the AI output otherwise. Each field falls
+ * back on its own, so a reviewer can correct just the health status.
+ */
+export const getFinalLabels = (img: CapturedImage): FinalLabels => ({
+  healthStatus: img.humanLabel?.healthStatus ?? img.healthStatus,
+  growthStage: img.humanLabel?.growthStage ?? img.growthStage,
+  tags: img.humanLabel?.tags ?? img.eventTags ?? [],
+  source: img.humanLabel ? 'human' : 'ai'
+});
+
+const normalizeStage = (stage: string) => stage.trim().toLowerCase();
+
+const tagOverlap = (a: string[], b: string[]) => {
+  const setA = new Set(a.map(t => t.trim().toLowerCase()));
+  const setB = new Set(b.map(t => t.trim().toLowerCase()));
+  const union = new Set([...setA, ...setB]);
+  if (union.size === 0) return 1;
+  return [...setA].filter(t => setB.has(t)).length / union.size;
+};
+
+// --- Accuracy ---
+
+export interface Agreement {
+  compared: number;
+  agreed: number;
+}
+
+export interface LabelAccuracy {
+  labeled: number;
+  health: Agreement;
+  confusion: Record<HealthStatus, Record<HealthStatus, number>>; // AI label, then reviewer label
+  stage: Agreement;
+  tags: { compared: number; meanOverlap: number }; // Jaccard overlap, 0-1
+  bySource: Record<AnalysisSource, Agreement>; // Health agreement per analysis source
+}
+
+const emptyRow = () => Object.fromEntries(HEALTH_LABELS.map(h => [h, 0])) as Record<HealthStatus, number>;
+
+/**
+ * Compares AI output with reviewer labels. Only fields the reviewer set and
+ * the AI produced are counted.
+ */
+export const computeLabelAccuracy = (images: CapturedImage[]): LabelAccuracy => {
+  const accuracy: LabelAccuracy = {
+    labeled: 0,
+    health: { compared: 0, agreed: 0 },
+    confusion: Object.fromEntries(HEALTH_LABELS.map(h => [h, emptyRow()])) as LabelAccuracy['confusion'],
+    stage: { compared: 0, agreed: 0 },
+    tags: { compared: 0, meanOverlap: 0 },
+    bySource: { cloud: { compared: 0, agreed: 0 }, local: { compared: 0, agreed: 0 }, mock: { compared: 0, agreed: 0 } }
+  };
+  let overlapSum = 0;
+
+  for (const img of images) {
+    const label = img.humanLabel;
+    if (!label) continue;
+    accuracy.labeled++;
+
+    if (label.healthStatus && img.healthStatus) {
+      const agreed = label.healthStatus === img.healthStatus ? 1 : 0;
+      accuracy.health.compared++;
+      accuracy.health.agreed += agreed;
+      accuracy.confusion[img.healthStatus][label.healthStatus]++;
+      const source = accuracy.bySource[img.analysisSource || 'cloud'];
+      source.compared++;
+      source.agreed += agreed;
+    }
+    if (label.growthStage && img.growthStage) {
+      accuracy.stage.compared++;
+      if (normalizeStage(label.growthStage) === normalizeStage(img.growthStage)) accuracy.stage.agreed++;
+    }
+    if (label.tags && img.eventTags) {
+      accuracy.tags.compared++;
+      overlapSum += tagOverlap(label.tags, img.eventTags);
+    }
+  }
+
+  accuracy.tags.meanOverlap = accuracy.tags.compared > 0 ? overlapSum / accuracy.tags.compared : 0;
+  return accuracy;
+};
+
+// --- Export ---
+
+/**
+ * Snapshots to export: reviewed ones, plus analyzed but unreviewed ones when
+ * `includeUnreviewed` is set. Oldest first.
+ */
+export const selectDatasetSnapshots = (images: CapturedImage[], includeUnreviewed: boolean) =>
+  images
+    .filter(img => img.humanLabel || (includeUnreviewed && img.healthStatus))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+const imageFileName = (img: CapturedImage) => `images/${img.id}.jpg`;
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  'snapshot_id', 'file_name', 'image_url', 'timestamp', 'plant_id',
+  'health', 'growth_stage', 'tags', 'label_source',
+  'ai_health', 'ai_growth_stage', 'ai_tags', 'ai_confidence', 'analysis_source', 'labeled_at'
+];
+
+/**
+ * One row per snapshot with the final labels and the original AI output.
+ * Tags are joined with semicolons.
+ */
+export const datasetToCsv = (images: CapturedImage[]) => [
+  CSV_COLUMNS.join(','),
+  ...images.map(img => {
+    const labels = getFinalLabels(img);
+    return [
+      img.id,
+      imageFileName(img),
+      img.downloadUrl,
+      new Date(img.timestamp).toISOString(),
+      img.plantId,
+      labels.healthStatus,
+      labels.growthStage,
+      labels.tags.join(';'),
+      labels.source,
+      img.healthStatus,
+      img.growthStage,
+      img.eventTags?.join(';'),
+      img.confidence,
+      img.analysisSource,
+      img.humanLabel ? new Date(img.humanLabel.labeledAt).toISOString() : ''
+    ].map(csvCell).join(',');
+  })
+].join('\n');
+
+/**
+ * COCO-style dataset. Health is an image-level class, so each image gets a
+ * single full-frame annotation; stage and tags are annotation attributes.
+ */
+export const datasetToCoco = (images: CapturedImage[], sizes: Map<string, { width: number; height: number }>, now: Date = new Date()) => {
+  const cocoImages = images.map((img, i) => {
+    const size = sizes.get(img.id) || { width: img.width || 0, height: img.height || 0 };
+    return {
+      id: i + 1,
+      file_name: imageFileName(img),
+      width: size.width,
+      height: size.height,
+      date_captured: new Date(img.timestamp).toISOString(),
+      snapshot_id: img.id,
+      ...(img.plantId ? { plant_id: img.plantId } : {})
+    };
+  });
+
+  const annotations = images.flatMap((img, i) => {
+    const labels = getFinalLabels(img);
+    if (!labels.healthStatus) return [];
+    const { width, height } = cocoImages[i];
+    return [{
+      id: i + 1,
+      image_id: i + 1,
+      category_id: HEALTH_LABELS.indexOf(labels.healthStatus) + 1,
+      bbox: [0, 0, width, height],
+      area: width * height,
+      iscrowd: 0,
+      attributes: {
+        growth_stage: labels.growthStage || null,
+        tags: labels.tags,
+        label_source: labels.source,
+        ai_health: img.healthStatus || null,
+        ai_confidence: img.confidence ?? null
+      }
+    }];
+  });
+
+  return {
+    info: {
+      description: 'Plant health snapshots with reviewed labels',
+      version: '1.0',
+      year: now.getFullYear(),
+      date_created: now.toISOString()
+    },
+    licenses: [],
+    images: cocoImages,
+    annotations,
+    categories: HEALTH_LABELS.map((name, i) => ({ id: i + 1, name, supercategory: 'health' }))
+  };
+};
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * ZIP with every image, `annotations.json` (COCO) and `manifest.csv`.
+ * Snapshots whose image cannot be loaded are left out of all three.
+ */
+export const buildDatasetZip = async (images: CapturedImage[], onProgress?: (p: number) => void) => {
+  const entries: ZipEntry[] = [];
+  const included: CapturedImage[] = [];
+  const sizes = new Map<string, { width: number; height: number }>();
+
+  for (let i = 0; i < images.length; i++) {
+    const img = images[i];
+    try {
+      const bytes = dataUrlToBytes(await loadSnapshotDataUrl(img));
+      const bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type: 'image/jpeg' }));
+      sizes.set(img.id, { width: bitmap.width, height: bitmap.height });
+      bitmap.close();
+      entries.push({ name: imageFileName(img), data: bytes });
+      included.push(img);
+    } catch (e) {
+      console.warn("Skipping snapshot in dataset export:", img.id, e);
+    }
+    onProgress?.((i + 1) / images.length);
+  }
+
+  entries.push(
+    { name: 'annotations.json', data: JSON.stringify(datasetToCoco(included, sizes), null, 2) },
+    { name: 'manifest.csv', data: datasetToCsv(included) }
+  );
+  return { blob: createZip(entries), count: included.length, skipped: images.length - included.length };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,178 @@
+import { LiveContext, LiveSession, LiveToolHandlers } from './aiProvider';
+import { connectToLiveAPI } from './geminiService';
+import { UplinkStats, createUplinkMeter } from './frameSampler';
+
+// --- Configuration Constants ---
+const BASE_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+const STABLE_CONNECTION_MS = 10 * 1000; // A drop after this long starts the backoff over
+const MAX_BUFFERED_AUDIO_MS = 5000; // Older mic audio is dropped while disconnected
+const MAX_FAILED_RESUMES = 2; // Then the handle is assumed stale and a fresh session is started
+
+export type LiveConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface LiveConnectionStatus {
+  state: LiveConnectionState;
+  attempt: number; // Reconnect attempt in progress, 0 when connected
+  nextRetryAt?: number;
+  resumed: boolean; // The current connection continued the earlier conversation
+}
+
+export interface ResilientLiveSessionOptions {
+  onAudioData: (base64: string) => void;
+  onTranscript: (text: string, isUser: boolean) => void;
+  tools?: LiveToolHandlers;
+  context?: LiveContext;
+  onStatus: (status: LiveConnectionStatus) => void;
+  onFailed: (error: any) => void; // Gave up reconnecting; the session is closed
+}
+
+export interface ResilientLiveSession {
+  sendAudio: (audio: { data: string; mimeType: string }, durationMs: number) => void;
+  sendVideo: (video: { data: string; mimeType: string }) => boolean; // False when the frame was dropped
+  getUplink: () => UplinkStats; // Measured throughput of the current connection
+  close: () => void;
+}
+
+export const getReconnectDelay = (attempt: number) => {
+  const exp = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+};
+
+// Retrying cannot fix a missing key or a provider without Live support
+const isPermanentFailure = (error: any) => /API Key|not available/i.test(error?.message || '');
+
+/**
+ * A Live session that survives dropped connections. Drops are retried with
+ * exponential backoff, resuming the conversation from the provider's latest
+ * resumption handle when it has one. Mic audio sent while disconnected is
+ * buffered (up to a few seconds) and flushed on reconnect; video frames are
+ * dropped since the next one supersedes them.
+ */
+export const openResilientLiveSession = (options: ResilientLiveSessionOptions): ResilientLiveSession => {
+  let session: LiveSession | null = null;
+  let generation = 0; // Callbacks from replaced connections are ignored
+  let attempt = 0;
+  let connectedAt = 0;
+  let closed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let resumeHandle: string | undefined;
+  let resuming = false; // The current connection attempt uses resumeHandle
+  let failedResumes = 0;
+  let buffered: { audio: { data: string; mimeType: string }; durationMs: number }[] = [];
+  let bufferedMs = 0;
+  const uplink = createUplinkMeter(() => session ? session.bufferedAmount?.() : 0);
+
+  const send = (input: Parameters<LiveSession['sendRealtimeInput']>[0]) => {
+    if (!session) return;
+    session.sendRealtimeInput(input);
+    uplink.recordSent((input.audio?.data.length || 0) + (input.video?.data.length || 0));
+  };
+
+  const report = (state: LiveConnectionState, extra: Partial<LiveConnectionStatus> = {}) =>
+    options.onStatus({ state, attempt, resumed: false, ...extra });
+
+  const flushAudio = () => {
+    const pending = buffered;
+    buffered = [];
+    bufferedMs = 0;
+    pending.forEach(({ audio }) => send({ audio }));
+  };
+
+  const handleDrop = (gen: number, error?: any) => {
+    if (closed || gen !== generation) return;
+    generation++;
+    session = null;
+    if (error) console.warn("Live connection dropped:", error);
+    const stable = connectedAt > 0 && Date.now() - connectedAt >= STABLE_CONNECTION_MS;
+    if (resuming && !stable && ++failedResumes >= MAX_FAILED_RESUMES) {
+      resumeHandle = undefined;
+      failedResumes = 0;
+    }
+    if (stable) attempt = 0;
+    connectedAt = 0;
+
+    if (isPermanentFailure(error) || attempt >= MAX_RECONNECT_ATTEMPTS) {
+      closed = true;
+      report('closed');
+      options.onFailed(error || new Error("Live connection lost."));
+      return;
+    }
+    attempt++;
+    const delay = getReconnectDelay(attempt);
+    report('reconnecting', { nextRetryAt: Date.now() + delay });
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    if (closed) return;
+    const gen = ++generation;
+    resuming = !!resumeHandle;
+    try {
+      const next = await connectToLiveAPI({
+        onAudioData: (base64) => { if (gen === generation) options.onAudioData(base64); },
+        onTranscript: (text, isUser) => { if (gen === generation) options.onTranscript(text, isUser); },
+        onClose: () => handleDrop(gen),
+        onError: (e) => handleDrop(gen, e),
+        tools: options.tools,
+        onResumptionHandle: (handle) => { resumeHandle = handle; },
+        // Reconnect right away while the handle is still fresh, rather than waiting for the drop
+        onGoAway: () => {
+          if (gen !== generation || closed) return;
+          const old = session;
+          generation++;
+          session = null;
+          old?.close();
+          report('reconnecting');
+          connect();
+        }
+      }, { context: options.context, resumeHandle });
+
+      if (closed || gen !== generation) {
+        next.close();
+        return;
+      }
+      session = next;
+      connectedAt = Date.now();
+      uplink.reset();
+      if (!resuming) failedResumes = 0;
+      report('connected', { attempt: 0, resumed: resuming });
+      flushAudio();
+    } catch (e) {
+      handleDrop(gen, e);
+    }
+  };
+
+  report('connecting');
+  connect();
+
+  return {
+    sendAudio: (audio, durationMs) => {
+      if (closed) return;
+      if (session) {
+        send({ audio });
+        return;
+      }
+      buffered.push({ audio, durationMs });
+      bufferedMs += durationMs;
+      while (bufferedMs > MAX_BUFFERED_AUDIO_MS && buffered.length > 1) bufferedMs -= buffered.shift()!.durationMs;
+    },
+    sendVideo: (video) => {
+      if (closed || !session) return false;
+      send({ video });
+      return true;
+    },
+    getUplink: () => uplink.getStats(),
+    close: () => {
+      if (closed) return;
+      closed = true;
+      generation++;
+      clearTimeout(retryTimer);
+      buffered = [];
+      session?.close();
+      session = null;
+      report('closed');
+    }
+  };
+};
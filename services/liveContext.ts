@@ -0,0 +1,68 @@
+import { AnomalyAlert, CapturedImage, CareReminder, Plant } from '../types';
+import { LiveContext, LiveSnapshotSummary } from './aiProvider';
+import { getActionableReminders, getReminderState } from './careReminders';
+import { getPlantHistory } from './liveTools';
+
+// --- Configuration Constants ---
+export const LIVE_CONTEXT_SCANS = 5;
+const LIVE_CONTEXT_ALERTS = 5;
+const ALERT_WINDOW_MS = 14 * 24 * 60 * 60 * 1000; // Older alerts are history, not context
+
+// --- Helpers ---
+
+// Weekday included so the model can refer to "Tuesday's scan"
+const formatContextTime = (timestamp: number) => new Date(timestamp).toLocaleString('en-US', {
+  weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const toScanLine = (scan: LiveSnapshotSummary) => [
+  formatContextTime(Date.parse(scan.capturedAt)),
+  `${scan.health || '-'}${scan.reviewed ? ' (reviewed)' : ''}`,
+  scan.stage || '-',
+  scan.confidence !== undefined ? `${scan.confidence}%` : '-',
+  scan.tags?.join(', ') || '-',
+  scan.observation?.replace(/\s+/g, ' ') || '-'
+].join(' | ');
+
+const toReminderLine = (reminder: CareReminder, now: number) => [
+  reminder.title,
+  `every ${reminder.frequencyDays} day${reminder.frequencyDays === 1 ? '' : 's'}`,
+  `${getReminderState(reminder, now)}, next ${formatContextTime(reminder.nextDue)}`
+].join(' | ');
+
+const toAlertLine = (alert: AnomalyAlert) => [
+  formatContextTime(alert.detectedAt),
+  alert.severity,
+  alert.message,
+  alert.acknowledged ? 'acknowledged' : 'open'
+].join(' | ');
+
+/**
+ * Context package for a Live session about `plant` (or every snapshot when
+ * no plant is active): the latest analyses, active reminders with the most
+ * urgent first, and alerts raised for the plant in the last two weeks.
+ */
+export const buildLiveContext = (
+  images: CapturedImage[],
+  plant: Plant | undefined,
+  reminders: CareReminder[] | undefined,
+  alerts: AnomalyAlert[],
+  fallbackSpecies?: string,
+  now: number = Date.now()
+): LiveContext => {
+  const history = getPlantHistory(images, plant, LIVE_CONTEXT_SCANS);
+  const actionable = getActionableReminders(reminders, now).map(s => s.reminder);
+  const active = [...actionable, ...(reminders || []).filter(r => r.isActive && !actionable.includes(r))];
+
+  return {
+    generatedAt: now,
+    plant: history.plant || fallbackSpecies || undefined,
+    scans: history.snapshots.map(toScanLine),
+    reminders: active.map(r => toReminderLine(r, now)),
+    alerts: alerts
+      .filter(a => (!plant || a.plantId === plant.id) && a.detectedAt >= now - ALERT_WINDOW_MS)
+      .sort((a, b) => b.detectedAt - a.detectedAt)
+      .slice(0, LIVE_CONTEXT_ALERTS)
+      .map(toAlertLine)
+  };
+};
@@ -0,0 +1,160 @@
+import { decodeAudio } from './geminiService';
+
+// --- Configuration Constants ---
+export const MAX_RECORDING_MS = 10 * 60 * 1000; // Archives are held in memory until saved
+export const MIC_SAMPLE_RATE = 16000;
+export const MODEL_SAMPLE_RATE = 24000; // Replay audio is mixed at the model's rate
+const PREVIEW_LENGTH = 140;
+
+// --- Archive ---
+
+export interface TimedChunk {
+  t: number; // ms since the recording started
+  data: string; // Base64 16-bit PCM for audio, base64 JPEG for frames
+}
+
+export interface TimedTranscript {
+  t: number;
+  text: string;
+  isUser: boolean;
+}
+
+/**
+ * Everything a Live session sent and received while recording. Times are
+ * relative to `startedAt`; model audio is stamped with when it was played,
+ * not when it arrived.
+ */
+export interface LiveSessionArchive {
+  version: 1;
+  startedAt: number;
+  durationMs: number;
+  micAudio: TimedChunk[];
+  modelAudio: TimedChunk[];
+  transcripts: TimedTranscript[];
+  frames: TimedChunk[];
+}
+
+export interface LiveRecorder {
+  addMicAudio: (base64: string, durationMs: number) => void;
+  addModelAudio: (base64: string, playAt: number) => void; // playAt: epoch ms the chunk starts playing
+  addTranscript: (text: string, isUser: boolean) => void;
+  addFrame: (base64: string) => void;
+  isFull: () => boolean;
+  finish: () => LiveSessionArchive;
+}
+
+/**
+ * Collects a session into an archive. Streaming transcription arrives in
+ * fragments, so consecutive fragments from the same speaker are merged into
+ * one line stamped with its first fragment. Input past `MAX_RECORDING_MS`
+ * is dropped.
+ */
+export const createLiveRecorder = (startedAt: number = Date.now()): LiveRecorder => {
+  const archive: LiveSessionArchive = { version: 1, startedAt, durationMs: 0, micAudio: [], modelAudio: [], transcripts: [], frames: [] };
+  const elapsed = () => Date.now() - startedAt;
+  const isFull = () => elapsed() >= MAX_RECORDING_MS;
+
+  return {
+    // Mic buffers are stamped when they end, so step back to their start
+    addMicAudio: (data, durationMs) => { if (!isFull()) archive.micAudio.push({ t: Math.max(0, elapsed() - durationMs), data }); },
+    addModelAudio: (data, playAt) => { if (!isFull()) archive.modelAudio.push({ t: Math.max(0, playAt - startedAt), data }); },
+    addTranscript: (text, isUser) => {
+      if (isFull()) return;
+      const last = archive.transcripts[archive.transcripts.length - 1];
+      if (last && last.isUser === isUser) last.text += text;
+      else archive.transcripts.push({ t: elapsed(), text, isUser });
+    },
+    addFrame: (data) => { if (!isFull()) archive.frames.push({ t: elapsed(), data }); },
+    isFull,
+    finish: () => ({ ...archive, durationMs: Math.min(elapsed(), MAX_RECORDING_MS) })
+  };
+};
+
+export const isArchiveEmpty = (archive: LiveSessionArchive) =>
+  archive.micAudio.length === 0 && archive.modelAudio.length === 0 && archive.frames.length === 0 && archive.transcripts.length === 0;
+
+export const archivePreview = (archive: LiveSessionArchive) => {
+  const text = archive.transcripts.map(t => `${t.isUser ? 'You' : 'Gemma'}: ${t.text.trim()}`).join(' ');
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+};
+
+// --- Replay ---
+
+const pcmToFloat = (base64: string) => {
+  const bytes = decodeAudio(base64);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(bytes.byteLength >> 1);
+  for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 32768;
+  return samples;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number) => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeText = (offset: number, text: string) => { for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i)); };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, samples[i])) * 0x7fff, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Mixes mic and model audio onto one timeline as a WAV file, so a single
+ * audio element can act as the replay clock. Mic audio is resampled to the
+ * model rate by linear interpolation.
+ */
+export const renderArchiveAudio = (archive: LiveSessionArchive) => {
+  const mic = archive.micAudio.map(c => ({ t: c.t, samples: pcmToFloat(c.data) }));
+  const model = archive.modelAudio.map(c => ({ t: c.t, samples: pcmToFloat(c.data) }));
+  const endMs = Math.max(
+    archive.durationMs,
+    ...mic.map(c => c.t + c.samples.length / MIC_SAMPLE_RATE * 1000),
+    ...model.map(c => c.t + c.samples.length / MODEL_SAMPLE_RATE * 1000)
+  );
+  const out = new Float32Array(Math.ceil(endMs / 1000 * MODEL_SAMPLE_RATE));
+  const ratio = MIC_SAMPLE_RATE / MODEL_SAMPLE_RATE;
+
+  for (const { t, samples } of model) {
+    const start = Math.round(t / 1000 * MODEL_SAMPLE_RATE);
+    for (let i = 0; i < samples.length && start + i < out.length; i++) out[start + i] += samples[i];
+  }
+  for (const { t, samples } of mic) {
+    const start = Math.round(t / 1000 * MODEL_SAMPLE_RATE);
+    const length = Math.floor((samples.length - 1) / ratio);
+    for (let i = 0; i < length && start + i < out.length; i++) {
+      const pos = i * ratio;
+      const j = Math.floor(pos);
+      out[start + i] += samples[j] + (samples[j + 1] - samples[j]) * (pos - j);
+    }
+  }
+  return encodeWav(out, MODEL_SAMPLE_RATE);
+};
+
+/** Index of the last entry at or before `t`, or -1. Entries are in time order. */
+export const indexAtTime = (entries: { t: number }[], t: number) => {
+  let lo = 0;
+  let hi = entries.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (entries[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,135 @@
+import { ref, uploadBytes, getBlob, deleteObject } from 'firebase/storage';
+import { collection, doc, setDoc, deleteDoc, getDocs, query, orderBy, limit } from 'firebase/firestore';
+import { db, storage } from '../firebase';
+import { LiveRecording, LiveRecordingStorage } from '../types';
+import { LiveSessionArchive, archivePreview } from './liveRecorder';
+
+// --- Configuration Constants ---
+const DB_NAME = 'gemma-live';
+const DB_VERSION = 1;
+const STORE_RECORDINGS = 'recordings'; // Metadata, listed without loading any media
+const STORE_ARCHIVES = 'archives';
+const MAX_LISTED = 50;
+
+export const liveRecordingStoragePath = (uid: string, recordingId: string) => `users/${uid}/liveRecordings/${recordingId}.json`;
+
+// --- IndexedDB Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openRecordingsDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of [STORE_RECORDINGS, STORE_ARCHIVES]) {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const idb = await openRecordingsDb();
+  return new Promise((resolve, reject) => {
+    const request = run(idb.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Recordings API ---
+
+/**
+ * Saves an archive and returns its metadata record. Cloud recordings put the
+ * archive in the storage bucket and the record in Firestore; anything else
+ * stays in this browser.
+ */
+export const saveLiveRecording = async (
+  uid: string | null,
+  archive: LiveSessionArchive,
+  target: LiveRecordingStorage,
+  plantId?: string,
+  now: number = Date.now()
+): Promise<LiveRecording> => {
+  const json = JSON.stringify(archive);
+  const id = archive.startedAt.toString();
+  const storageTarget: LiveRecordingStorage = uid && target === 'cloud' ? 'cloud' : 'local';
+  const record: LiveRecording = {
+    id,
+    uid: uid || 'anonymous',
+    ...(plantId ? { plantId } : {}),
+    startedAt: archive.startedAt,
+    durationMs: archive.durationMs,
+    storage: storageTarget,
+    byteSize: json.length,
+    frameCount: archive.frames.length,
+    transcriptCount: archive.transcripts.length,
+    ...(archive.transcripts.length ? { preview: archivePreview(archive) } : {}),
+    createdAt: now
+  };
+
+  if (uid && storageTarget === 'cloud') {
+    const storagePath = liveRecordingStoragePath(uid, id);
+    await uploadBytes(ref(storage, storagePath), new Blob([json], { type: 'application/json' }), { contentType: 'application/json' });
+    const cloudRecord = { ...record, storagePath };
+    await setDoc(doc(db, 'users', uid, 'liveRecordings', id), cloudRecord);
+    return cloudRecord;
+  }
+
+  await withStore(STORE_ARCHIVES, 'readwrite', store => store.put(archive, id));
+  await withStore(STORE_RECORDINGS, 'readwrite', store => store.put(record, id));
+  return record;
+};
+
+/**
+ * Recordings from this browser plus, when signed in, the cloud ones. Newest
+ * first. An unavailable source is skipped so the other still lists.
+ */
+export const listLiveRecordings = async (uid: string | null): Promise<LiveRecording[]> => {
+  const [local, cloud] = await Promise.all([
+    withStore<LiveRecording[]>(STORE_RECORDINGS, 'readonly', store => store.getAll()).catch(e => {
+      console.warn("Local recordings unavailable:", e);
+      return [];
+    }),
+    uid
+      ? getDocs(query(collection(db, 'users', uid, 'liveRecordings'), orderBy('startedAt', 'desc'), limit(MAX_LISTED)))
+          .then(snap => snap.docs.map(d => d.data() as LiveRecording))
+      : Promise.resolve([])
+  ]);
+  // Local recordings made while signed out stay visible after signing in
+  const mine = local.filter(r => !uid || r.uid === uid || r.uid === 'anonymous');
+  return [...mine, ...cloud].sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadLiveArchive = async (recording: LiveRecording): Promise<LiveSessionArchive> => {
+  if (recording.storage === 'cloud') {
+    if (!recording.storagePath) throw new Error("Recording has no archive.");
+    return JSON.parse(await (await getBlob(ref(storage, recording.storagePath))).text());
+  }
+  const archive = await withStore<LiveSessionArchive | undefined>(STORE_ARCHIVES, 'readonly', store => store.get(recording.id));
+  if (!archive) throw new Error("Recording is not stored on this device.");
+  return archive;
+};
+
+export const deleteLiveRecording = async (recording: LiveRecording) => {
+  if (recording.storage === 'local') {
+    await withStore(STORE_ARCHIVES, 'readwrite', store => store.delete(recording.id));
+    await withStore(STORE_RECORDINGS, 'readwrite', store => store.delete(recording.id));
+    return;
+  }
+  await deleteDoc(doc(db, 'users', recording.uid, 'liveRecordings', recording.id));
+  if (!recording.storagePath) return;
+  try {
+    await deleteObject(ref(storage, recording.storagePath));
+  } catch (e: any) {
+    if (e?.code !== 'storage/object-not-found') console.warn("Failed to delete recording archive:", e);
+  }
+};
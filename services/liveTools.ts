@@ -0,0 +1,44 @@
+import { CapturedImage, Plant } from '../types';
+import { LiveSnapshotSummary, LiveToolResults } from './aiProvider';
+import { getFinalLabels } from './labelDataset';
+import { filterImagesByPlant } from './plants';
+
+// --- Configuration Constants ---
+export const DEFAULT_HISTORY_LIMIT = 5;
+const MAX_HISTORY_LIMIT = 20;
+const MAX_OBSERVATION_LENGTH = 240; // Keeps tool responses short enough to read aloud
+
+// --- Helpers ---
+
+/**
+ * Compact, model-readable view of one analyzed snapshot. Reviewer labels
+ * override the AI health and stage, as everywhere else.
+ */
+export const summarizeSnapshot = (img: CapturedImage): LiveSnapshotSummary => {
+  const labels = getFinalLabels(img);
+  return {
+    capturedAt: new Date(img.timestamp).toISOString(),
+    ...(labels.healthStatus ? { health: labels.healthStatus } : {}),
+    ...(labels.growthStage ? { stage: labels.growthStage } : {}),
+    ...(img.confidence !== undefined ? { confidence: img.confidence } : {}),
+    ...(labels.tags.length ? { tags: labels.tags } : {}),
+    ...(img.analysis ? { observation: img.analysis.slice(0, MAX_OBSERVATION_LENGTH) } : {}),
+    reviewed: labels.source === 'human'
+  };
+};
+
+/**
+ * Recent analyzed snapshots of `plant` (every snapshot when no plant is
+ * active), newest first. Unanalyzed snapshots tell the model nothing and are
+ * skipped.
+ */
+export const getPlantHistory = (images: CapturedImage[], plant: Plant | undefined, limit: number = DEFAULT_HISTORY_LIMIT): LiveToolResults['getPlantHistory'] => {
+  const count = Math.min(MAX_HISTORY_LIMIT, Math.max(1, Math.round(limit) || DEFAULT_HISTORY_LIMIT));
+  const snapshots = filterImagesByPlant(images, plant?.id)
+    .filter(img => img.healthStatus || img.humanLabel || img.analysis)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, count)
+    .map(summarizeSnapshot);
+  const name = plant ? [plant.name, plant.species].filter(Boolean).join(', ') : undefined;
+  return { ...(name ? { plant: name } : {}), snapshots };
+};
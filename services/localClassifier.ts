@@ -0,0 +1,167 @@
+import { BoundingBox, HealthStatus, PlantAnalysis } from '../types';
+import { loadImage } from './imageUtils';
+import { isFoliage, rgbToHsv } from './growthMetrics';
+
+// --- Configuration Constants ---
+const MODEL_URL = new URL('./models/plant-health.json', import.meta.url).href; // Emitted as a bundled asset
+const SAMPLE_MAX_SIZE = 160;
+const YELLOW_HUE_RANGE: [number, number] = [35, 65];
+const BROWN_HUE_RANGE: [number, number] = [10, 40];
+const BLOOM_SCALE = 5; // Blooms cover little of the frame; 20% coverage saturates the feature
+
+/**
+ * Dense layers with Keras/TFJS weight layout: `kernel` is [inputs][units].
+ */
+interface DenseLayer {
+  activation: 'linear' | 'relu' | 'sigmoid' | 'softmax';
+  kernel: number[][];
+  bias: number[];
+}
+
+interface ClassifierHead {
+  labels: string[];
+  layers: DenseLayer[];
+}
+
+export interface LocalModel {
+  format: 'dense-v1';
+  name: string;
+  version: number;
+  inputs: string[];
+  heads: { health: ClassifierHead; stage: ClassifierHead };
+}
+
+export type LocalFeatures = Record<'canopy' | 'greenness' | 'yellowing' | 'browning' | 'blooms', number>;
+
+// --- Inference ---
+
+const activate = (values: number[], activation: DenseLayer['activation']) => {
+  switch (activation) {
+    case 'relu': return values.map(v => Math.max(0, v));
+    case 'sigmoid': return values.map(v => 1 / (1 + Math.exp(-v)));
+    case 'softmax': {
+      const max = Math.max(...values);
+      const exps = values.map(v => Math.exp(v - max));
+      const sum = exps.reduce((a, b) => a + b, 0);
+      return exps.map(v => v / sum);
+    }
+    default: return values;
+  }
+};
+
+export const runHead = (head: ClassifierHead, input: number[]) => {
+  const output = head.layers.reduce((x, layer) =>
+    activate(layer.bias.map((b, j) => x.reduce((sum, v, i) => sum + v * layer.kernel[i][j], b)), layer.activation),
+    input
+  );
+  const best = output.indexOf(Math.max(...output));
+  return { label: head.labels[best], probability: output[best] };
+};
+
+let modelPromise: Promise<LocalModel> | null = null;
+
+/**
+ * Loads the bundled model once. Failures are not cached so a later call can
+ * retry.
+ */
+export const loadLocalModel = () => {
+  if (!modelPromise) {
+    modelPromise = fetch(MODEL_URL)
+      .then(res => {
+        if (!res.ok) throw new Error(`Model request failed: ${res.status}`);
+        return res.json();
+      })
+      .then((model: LocalModel) => {
+        if (model.format !== 'dense-v1') throw new Error(`Unsupported model format: ${model.format}`);
+        return model;
+      })
+      .catch(e => {
+        modelPromise = null;
+        throw e;
+      });
+  }
+  return modelPromise;
+};
+
+// --- Features ---
+
+/**
+ * Colour features over the region, each scaled to roughly 0-1.
+ */
+export const extractFeatures = (data: Uint8ClampedArray, width: number, height: number, roi?: BoundingBox): LocalFeatures => {
+  const x0 = roi ? Math.floor(roi.x * width) : 0;
+  const y0 = roi ? Math.floor(roi.y * height) : 0;
+  const x1 = roi ? Math.min(width, Math.ceil((roi.x + roi.width) * width)) : width;
+  const y1 = roi ? Math.min(height, Math.ceil((roi.y + roi.height) * height)) : height;
+
+  let foliage = 0, gccSum = 0, yellow = 0, brown = 0, bloom = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const { h, s, v } = rgbToHsv(r, g, b);
+      if (isFoliage(r, g, b)) {
+        foliage++;
+        gccSum += g / (r + g + b);
+        if (h >= YELLOW_HUE_RANGE[0] && h <= YELLOW_HUE_RANGE[1]) yellow++;
+      } else if (h >= BROWN_HUE_RANGE[0] && h <= BROWN_HUE_RANGE[1] && s > 0.25 && v > 0.15 && v < 0.65) {
+        brown++;
+      } else if (s > 0.45 && v > 0.4 && (h < 30 || h > 270)) {
+        bloom++;
+      }
+    }
+  }
+
+  const region = Math.max(1, (x1 - x0) * (y1 - y0));
+  const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+  return {
+    canopy: foliage / region,
+    greenness: foliage > 0 ? clamp01((gccSum / foliage - 1 / 3) * 3) : 0,
+    yellowing: foliage > 0 ? yellow / foliage : 0,
+    browning: brown / Math.max(1, foliage + brown),
+    blooms: clamp01((bloom / region) * BLOOM_SCALE)
+  };
+};
+
+/**
+ * Coarse health and growth stage estimate computed entirely in the browser.
+ * Used when the cloud provider cannot be reached.
+ */
+export const classifySnapshot = async (src: string, roi?: BoundingBox): Promise<PlantAnalysis> => {
+  const [model, img] = await Promise.all([loadLocalModel(), loadImage(src)]);
+  const ratio = Math.min(1, SAMPLE_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const features = extractFeatures(data, canvas.width, canvas.height, roi);
+  const input = model.inputs.map(name => features[name as keyof LocalFeatures] ?? 0);
+  const health = runHead(model.heads.health, input);
+  const stage = runHead(model.heads.stage, input);
+  const tags = [
+    ...(features.yellowing > 0.2 ? ['yellowing'] : []),
+    ...(features.browning > 0.15 ? ['browning'] : []),
+    ...(stage.label === 'flowering' ? ['blooms'] : [])
+  ];
+
+  return {
+    summary: `On-device estimate: ${health.label.toLowerCase()}, ${stage.label} stage. Canopy covers ${Math.round(features.canopy * 100)}% of the frame. Re-analyze online for a detailed diagnosis.`,
+    healthStatus: health.label as HealthStatus,
+    growthStage: stage.label,
+    tags,
+    confidence: Math.round(health.probability * 100),
+    detectedIssues: [],
+    source: 'local'
+  };
+};
+
+/**
+ * True for errors that retrying will not fix: no key configured, a rejected
+ * key, or no network at all.
+ */
+export const isCloudUnavailable = (error: any) =>
+  !navigator.onLine || /API Key not detected|Invalid API Key/i.test(error?.message || '');
@@ -0,0 +1,145 @@
+import { DiagnosisFindings, HealthStatus, PlantAnalysis } from "../types";
+import { AIProvider, ChatHistoryEntry, ChatOptions, ChatStreamChunk } from "./aiProvider";
+
+// --- Configuration Constants ---
+const STREAM_DELAY_MS = 30;
+const SPEECH_SAMPLE_RATE = 24000;
+const HEALTH_STATES: HealthStatus[] = ['HEALTHY', 'HEALTHY', 'STRESSED', 'CRITICAL'];
+const GROWTH_STAGES = ['seedling', 'vegetative', 'flowering', 'fruiting'];
+
+// --- Helpers ---
+
+/**
+ * FNV-1a, so identical inputs always produce identical responses.
+ */
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+const replyTo = (newMessage: string, options: ChatOptions) => {
+  const images = options.images?.length ? ` with ${options.images.length} image(s)` : '';
+  return `[Mock] You said${images}: "${newMessage.trim()}"`;
+};
+
+const mockDiagnosis = (base64Data: string): DiagnosisFindings => {
+  const h = hash(base64Data.slice(-512));
+  if (HEALTH_STATES[h % HEALTH_STATES.length] === 'HEALTHY') {
+    return { summary: 'Mock diagnosis: no signs of disease or pests.', confidence: 80, regions: [], recommendations: ['No treatment needed.'] };
+  }
+  // Positions derive from the hash so the overlay moves between snapshots
+  const at = (shift: number) => 0.15 + ((h >>> shift) % 60) / 100;
+  return {
+    summary: 'Mock diagnosis: localized leaf spotting with a possible pest cluster.',
+    primaryCause: 'fungal leaf spot',
+    confidence: 50 + ((h >>> 8) % 40),
+    regions: [
+      { label: 'leaf spot', category: 'disease', severity: 'medium', evidence: 'Circular brown lesions with yellow halos.', box: { x: at(2), y: at(6), width: 0.2, height: 0.15 } },
+      { label: 'aphid cluster', category: 'pest', severity: 'low', evidence: 'Small pale specks along the stem.', point: { x: at(10), y: at(14) } }
+    ],
+    recommendations: ['Remove affected leaves.', 'Improve airflow and avoid wetting foliage.']
+  };
+};
+
+const mockAnalysis = (base64Data: string, plantType?: string): PlantAnalysis => {
+  const h = hash(base64Data.slice(-512));
+  const healthStatus = HEALTH_STATES[h % HEALTH_STATES.length];
+  return {
+    summary: `Mock assessment of ${plantType || 'the plant'}: foliage looks ${healthStatus === 'HEALTHY' ? 'even and upright' : 'uneven with some discoloration'}.`,
+    healthStatus,
+    growthStage: GROWTH_STAGES[(h >>> 4) % GROWTH_STAGES.length],
+    tags: healthStatus === 'HEALTHY' ? ['steady growth'] : ['leaf discoloration'],
+    advice: healthStatus === 'HEALTHY' ? 'Keep the current watering schedule.' : 'Check soil moisture and light exposure.',
+    confidence: 50 + ((h >>> 8) % 50),
+    detectedIssues: healthStatus === 'HEALTHY' ? [] : [{
+      label: 'discoloration',
+      severity: healthStatus === 'CRITICAL' ? 'high' : 'medium',
+      box: { x: 0.3, y: 0.3, width: 0.2, height: 0.2 }
+    }]
+  };
+};
+
+/**
+ * A short sine tone whose pitch depends on the text.
+ */
+const mockSpeech = (text: string) => {
+  const samples = new Int16Array(SPEECH_SAMPLE_RATE / 2);
+  const frequency = 220 + (hash(text) % 220);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin((2 * Math.PI * frequency * i) / SPEECH_SAMPLE_RATE) * 8000;
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const mockImage = (prompt: string) => {
+  const hue = hash(prompt) % 360;
+  const label = prompt.slice(0, 40).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="hsl(${hue},45%,20%)"/><circle cx="256" cy="256" r="140" fill="hsl(${(hue + 90) % 360},60%,45%)"/><text x="256" y="480" font-family="monospace" font-size="18" fill="white" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+async function* streamMessage(
+  _history: ChatHistoryEntry[],
+  newMessage: string,
+  options: ChatOptions & { signal?: AbortSignal } = {}
+): AsyncGenerator<ChatStreamChunk> {
+  if (options.useThinking) yield { thought: 'Mock reasoning: restating the question.' };
+  for (const word of replyTo(newMessage, options).split(/(?<= )/)) {
+    await sleep(STREAM_DELAY_MS, options.signal);
+    if (options.signal?.aborted) return;
+    yield { text: word };
+  }
+}
+
+/**
+ * Offline provider returning canned, deterministic results. Useful for UI
+ * work and demos without an API key or network.
+ */
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+  capabilities: { search: false, maps: false, thinking: true, speech: true, imageGeneration: true, live: true },
+  sendMessage: async (_history, newMessage, options = {}) => ({ text: replyTo(newMessage, options), candidates: [] }),
+  streamMessage,
+  analyzeImage: async (base64Data, prompt, plantType) => `[Mock] ${mockAnalysis(base64Data, plantType).summary} (${prompt.slice(0, 60)})`,
+  analyzePlantSnapshot: async (base64Data, plantType, options = {}) => {
+    const analysis: PlantAnalysis = { ...mockAnalysis(base64Data, plantType), source: 'mock' };
+    // A thorough pass is more certain, so the review flow can be exercised offline
+    return options.thorough ? { ...analysis, confidence: Math.min(99, analysis.confidence! + 25) } : analysis;
+  },
+  generateGrowthReport: async (logs, subject) => ({
+    summary: `Mock report for ${subject || 'all plants'} covering ${logs.length} observation(s).`,
+    trend: 'Growth appears steady across the period.',
+    issues: logs.some(l => /STRESSED|CRITICAL/.test(l)) ? ['Some snapshots were flagged as stressed.'] : [],
+    recommendations: ['Continue the current care routine.']
+  }),
+  diagnoseSnapshot: async (base64Data) => mockDiagnosis(base64Data),
+  getFastResponse: async (text) => text.replace(/\s+/g, ' ').trim().split(' ').slice(-6).join(' '),
+  generateSpeech: async (text) => mockSpeech(text),
+  generateImage: async (prompt) => ({ imageUrl: mockImage(prompt) }),
+  connectLive: async ({ onClose, onTranscript }, { context } = {}) => {
+    let open = true;
+    const history = context?.scans.length ? ` I have ${context.scans.length} earlier scan(s) to compare with.` : '';
+    setTimeout(() => open && onTranscript(`[Mock] Live session connected. I can see ${context?.plant || 'your plant'}.${history}`, false), 500);
+    return {
+      sendRealtimeInput: () => {},
+      close: () => {
+        if (!open) return;
+        open = false;
+        onClose();
+      }
+    };
+  }
+};
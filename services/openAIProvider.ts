@@ -0,0 +1,245 @@
+import { parseAnalysisText, parseReportSections, parseDiagnosis } from "./analysisParser";
+import {
+  AIProvider,
+  ChatHistoryEntry,
+  ChatOptions,
+  ChatStreamChunk,
+  OpenAICompatibleConfig,
+  DEFAULT_OPENAI_CONFIG,
+  CHAT_SYSTEM_INSTRUCTION,
+  snapshotAnalysisPrompt,
+  diagnosisPrompt,
+  growthReportPrompt,
+  toProviderError
+} from "./aiProvider";
+
+// --- Configuration Constants ---
+export const OPENAI_API_KEY_STORAGE_KEY = 'gemma_openai_api_key';
+const MODEL_TTS = 'tts-1';
+const MODEL_IMAGE = 'dall-e-3';
+const TTS_VOICE = 'onyx';
+
+// Field names match `PlantAnalysis`; without schema support the shape is described in the prompt
+const ANALYSIS_JSON_INSTRUCTION = 'Reply with a JSON object only, with keys: summary (string), healthStatus ("HEALTHY" | "STRESSED" | "CRITICAL"), growthStage (string), tags (string array), advice (string), confidence (0-100), detectedIssues (array of { label, severity: "low" | "medium" | "high", box: { ymin, xmin, ymax, xmax } on a 0-1000 grid }).';
+
+const DIAGNOSIS_JSON_INSTRUCTION = 'Reply with a JSON object only, with keys: summary (string), primaryCause (string, omit when healthy), confidence (0-100), regions (array of { label, category: "disease" | "pest" | "nutrient" | "environmental" | "other", severity: "low" | "medium" | "high", evidence, and either box: { ymin, xmin, ymax, xmax } or point: { y, x } on a 0-1000 grid }), recommendations (string array).';
+
+// Closest supported sizes for the aspect ratios offered in the UI
+const IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '4:3': '1792x1024',
+  '9:16': '1024x1792',
+  '3:4': '1024x1792'
+};
+
+// --- Helpers ---
+
+/**
+ * The key is kept on the device only: build-time env first, then the value
+ * entered in settings.
+ */
+export const getOpenAIApiKey = () =>
+  (import.meta as any).env?.VITE_OPENAI_API_KEY || localStorage.getItem(OPENAI_API_KEY_STORAGE_KEY) || '';
+
+export const setOpenAIApiKey = (key: string) => {
+  if (key) localStorage.setItem(OPENAI_API_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(OPENAI_API_KEY_STORAGE_KEY);
+};
+
+const toMessages = (history: ChatHistoryEntry[], newMessage: string, options: ChatOptions) => [
+  { role: 'system', content: CHAT_SYSTEM_INSTRUCTION },
+  ...history.map(h => ({ role: h.role === 'model' ? 'assistant' : 'user', content: h.text })),
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: newMessage },
+      ...(options.images || []).map(url => ({ type: 'image_url', image_url: { url } }))
+    ]
+  }
+];
+
+const imageMessage = (dataUrl: string, text: string) => ({
+  role: 'user',
+  content: [
+    { type: 'image_url', image_url: { url: dataUrl.startsWith('data:') ? dataUrl : `data:image/jpeg;base64,${dataUrl}` } },
+    { type: 'text', text }
+  ]
+});
+
+/**
+ * Creates an adapter for any server speaking the OpenAI REST dialect
+ * (OpenAI, Ollama, LM Studio, vLLM, ...). Search, Maps and Live have no
+ * equivalent and are ignored or rejected.
+ */
+export const createOpenAIProvider = (config: OpenAICompatibleConfig = DEFAULT_OPENAI_CONFIG): AIProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_CONFIG.baseUrl).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_OPENAI_CONFIG.model;
+
+  const request = async (path: string, body: any, signal?: AbortSignal) => {
+    const apiKey = getOpenAIApiKey();
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.json().catch(() => null);
+      throw Object.assign(new Error(detail?.error?.message || `HTTP ${response.status}`), { status: response.status });
+    }
+    return response;
+  };
+
+  const complete = async (messages: any[], extra: any = {}) => {
+    const response = await request('/chat/completions', { model, messages, ...extra });
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content as string) || '';
+  };
+
+  const sendMessage: AIProvider['sendMessage'] = async (history, newMessage, options = {}) => {
+    try {
+      return { text: await complete(toMessages(history, newMessage, options)), candidates: [] };
+    } catch (error: any) {
+      console.error("Chat Error:", error);
+      throw toProviderError(error, 'Neural Link Failed');
+    }
+  };
+
+  async function* streamMessage(
+    history: ChatHistoryEntry[],
+    newMessage: string,
+    options: ChatOptions & { signal?: AbortSignal } = {}
+  ): AsyncGenerator<ChatStreamChunk> {
+    try {
+      const response = await request('/chat/completions', {
+        model,
+        messages: toMessages(history, newMessage, options),
+        stream: true
+      }, options.signal);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return;
+          const delta = JSON.parse(payload).choices?.[0]?.delta || {};
+          // Reasoning models served through vLLM/DeepSeek-style APIs stream their thinking separately
+          const chunk: ChatStreamChunk = {};
+          if (delta.reasoning_content) chunk.thought = delta.reasoning_content;
+          if (delta.content) chunk.text = delta.content;
+          if (chunk.text || chunk.thought) yield chunk;
+        }
+      }
+    } catch (error: any) {
+      if (options.signal?.aborted) return;
+      console.error("Chat Stream Error:", error);
+      throw toProviderError(error, 'Neural Link Failed');
+    }
+  }
+
+  const analyzeImage: AIProvider['analyzeImage'] = async (base64Data, prompt, plantType) => {
+    try {
+      const finalPrompt = plantType ? `[PLANT SPECIES: ${plantType}] ${prompt}` : prompt;
+      return await complete([imageMessage(base64Data, finalPrompt)]);
+    } catch (error: any) {
+      console.error("Analysis Error:", error);
+      throw toProviderError(error, 'Optical Analysis Failed');
+    }
+  };
+
+  const analyzePlantSnapshot: AIProvider['analyzePlantSnapshot'] = async (base64Data, plantType) => {
+    try {
+      const text = await complete(
+        [imageMessage(base64Data, `${snapshotAnalysisPrompt(plantType)} ${ANALYSIS_JSON_INSTRUCTION}`)],
+        { response_format: { type: 'json_object' } }
+      );
+      return parseAnalysisText(text);
+    } catch (error: any) {
+      console.error("Analysis Error:", error);
+      throw toProviderError(error, 'Optical Analysis Failed');
+    }
+  };
+
+  const diagnoseSnapshot: AIProvider['diagnoseSnapshot'] = async (base64Data, plantType) => {
+    try {
+      const text = await complete(
+        [imageMessage(base64Data, `${diagnosisPrompt(plantType)} ${DIAGNOSIS_JSON_INSTRUCTION}`)],
+        { response_format: { type: 'json_object' } }
+      );
+      return parseDiagnosis(text);
+    } catch (error: any) {
+      console.error("Diagnosis Error:", error);
+      throw toProviderError(error, 'Diagnosis Failed');
+    }
+  };
+
+  const generateGrowthReport: AIProvider['generateGrowthReport'] = async (logs, subject) => {
+    try {
+      const text = await complete([{ role: 'user', content: growthReportPrompt(logs, subject) }], { response_format: { type: 'json_object' } });
+      return parseReportSections(text);
+    } catch (error: any) {
+      console.error("Report Error:", error);
+      throw toProviderError(error, 'Report Generation Failed');
+    }
+  };
+
+  const generateImage: AIProvider['generateImage'] = async (prompt, aspectRatio = "1:1") => {
+    try {
+      const response = await request('/images/generations', {
+        model: MODEL_IMAGE,
+        prompt,
+        size: IMAGE_SIZES[aspectRatio] || IMAGE_SIZES['1:1'],
+        response_format: 'b64_json'
+      });
+      const data = await response.json();
+      const b64 = data.data?.[0]?.b64_json;
+      if (!b64) throw new Error("No image generated.");
+      return { imageUrl: `data:image/png;base64,${b64}` };
+    } catch (error: any) {
+      console.error("Image Generation Error:", error);
+      throw new Error(`Visual synthesis failed: ${error.message || 'Unknown error'}`);
+    }
+  };
+
+  const generateSpeech: AIProvider['generateSpeech'] = async (text) => {
+    try {
+      // 'pcm' is raw 24 kHz 16-bit mono, the same format Gemini returns
+      const response = await request('/audio/speech', { model: MODEL_TTS, voice: TTS_VOICE, input: text, response_format: 'pcm' });
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+      return btoa(binary);
+    } catch (error: any) {
+      console.error("Speech Error:", error);
+      throw toProviderError(error, 'Speech Synthesis Failed');
+    }
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-Compatible',
+    capabilities: { search: false, maps: false, thinking: false, speech: true, imageGeneration: true, live: false },
+    sendMessage,
+    streamMessage,
+    analyzeImage,
+    analyzePlantSnapshot,
+    generateGrowthReport,
+    diagnoseSnapshot,
+    getFastResponse: text => complete([{ role: 'user', content: text }]),
+    generateSpeech,
+    generateImage,
+    connectLive: async () => {
+      throw new Error("Live sessions are not available with the OpenAI-compatible provider.");
+    }
+  };
+};
@@ -0,0 +1,140 @@
+// Phase correlation for estimating the translation between two frames.
+// Pure math with no DOM access so it can run inside a Web Worker.
+
+export interface PhaseShift {
+  dx: number; // Pixels the target is shifted right relative to the reference
+  dy: number; // Pixels the target is shifted down relative to the reference
+  peak: number; // Correlation peak height, 0-1; low values mean an unreliable match
+}
+
+// --- FFT ---
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have a power-of-two length.
+ */
+export const fft = (re: Float64Array, im: Float64Array, inverse: boolean = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (2 * Math.PI / len) * (inverse ? 1 : -1);
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+const fft2d = (re: Float64Array, im: Float64Array, size: number, inverse: boolean = false) => {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let a = 0; a < size; a++) {
+      // Pass 0 transforms rows, pass 1 transforms columns
+      for (let b = 0; b < size; b++) {
+        const idx = pass === 0 ? a * size + b : b * size + a;
+        rowRe[b] = re[idx];
+        rowIm[b] = im[idx];
+      }
+      fft(rowRe, rowIm, inverse);
+      for (let b = 0; b < size; b++) {
+        const idx = pass === 0 ? a * size + b : b * size + a;
+        re[idx] = rowRe[b];
+        im[idx] = rowIm[b];
+      }
+    }
+  }
+};
+
+// --- Correlation ---
+
+const windowed = (pixels: Float32Array, size: number) => {
+  // Hann window suppresses the edge discontinuities that otherwise dominate the spectrum
+  const out = new Float64Array(size * size);
+  let mean = 0;
+  for (let i = 0; i < pixels.length; i++) mean += pixels[i];
+  mean /= pixels.length;
+  for (let y = 0; y < size; y++) {
+    const wy = 0.5 - 0.5 * Math.cos(2 * Math.PI * y / (size - 1));
+    for (let x = 0; x < size; x++) {
+      const wx = 0.5 - 0.5 * Math.cos(2 * Math.PI * x / (size - 1));
+      out[y * size + x] = (pixels[y * size + x] - mean) * wx * wy;
+    }
+  }
+  return out;
+};
+
+const refinePeak = (left: number, center: number, right: number) => {
+  // Parabolic interpolation for sub-pixel accuracy
+  const denom = left - 2 * center + right;
+  return denom === 0 ? 0 : Math.max(-0.5, Math.min(0.5, 0.5 * (left - right) / denom));
+};
+
+/**
+ * Estimates the translation of `target` relative to `reference`. Both are
+ * square grayscale images of `size` x `size` (power of two), row-major.
+ */
+export const phaseCorrelate = (reference: Float32Array, target: Float32Array, size: number): PhaseShift => {
+  const refRe = windowed(reference, size);
+  const refIm = new Float64Array(size * size);
+  const tgtRe = windowed(target, size);
+  const tgtIm = new Float64Array(size * size);
+  fft2d(refRe, refIm, size);
+  fft2d(tgtRe, tgtIm, size);
+
+  // Normalized cross-power spectrum: T * conj(R) / |T * conj(R)|
+  const re = new Float64Array(size * size);
+  const im = new Float64Array(size * size);
+  for (let i = 0; i < re.length; i++) {
+    const cRe = tgtRe[i] * refRe[i] + tgtIm[i] * refIm[i];
+    const cIm = tgtIm[i] * refRe[i] - tgtRe[i] * refIm[i];
+    const mag = Math.hypot(cRe, cIm) || 1;
+    re[i] = cRe / mag;
+    im[i] = cIm / mag;
+  }
+  fft2d(re, im, size, true);
+
+  let best = 0;
+  for (let i = 1; i < re.length; i++) if (re[i] > re[best]) best = i;
+  const py = Math.floor(best / size);
+  const px = best % size;
+  const at = (x: number, y: number) => re[((y + size) % size) * size + ((x + size) % size)];
+
+  const subX = refinePeak(at(px - 1, py), at(px, py), at(px + 1, py));
+  const subY = refinePeak(at(px, py - 1), at(px, py), at(px, py + 1));
+  const wrap = (v: number) => (v > size / 2 ? v - size : v);
+
+  return {
+    dx: wrap(px) + subX,
+    dy: wrap(py) + subY,
+    peak: Math.max(0, Math.min(1, re[best]))
+  };
+};
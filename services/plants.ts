@@ -0,0 +1,56 @@
+import { CapturedImage, Plant } from '../types';
+
+export const UNASSIGNED_PLANT_ID = 'unassigned';
+export const PLANT_PHOTO_SIZE = 256;
+
+export interface PlantGroup {
+  plant: Plant | null; // null groups snapshots that are not linked to an existing plant
+  images: CapturedImage[];
+}
+
+export const createPlant = (uid: string, fields: Pick<Plant, 'name'> & Partial<Plant>, now: number = Date.now()): Plant => ({
+  ...fields,
+  id: fields.id || `plant-${now}`,
+  uid,
+  name: fields.name.trim() || 'Unnamed Specimen',
+  createdAt: fields.createdAt || now
+});
+
+export const findPlant = (plants: Plant[], plantId?: string) =>
+  plantId ? plants.find(p => p.id === plantId) : undefined;
+
+/** True for snapshots without a plant or whose plant is not in `plants` (e.g. deleted). */
+export const isUnassigned = (img: CapturedImage, plants: Plant[]) =>
+  !img.plantId || !plants.some(p => p.id === img.plantId);
+
+/**
+ * Groups snapshots under their plant record, newest snapshot first. Plants
+ * without snapshots are kept so the library shows every registered plant;
+ * snapshots pointing at unknown or missing plants fall into a trailing
+ * unassigned group.
+ */
+export const groupImagesByPlant = (images: CapturedImage[], plants: Plant[]): PlantGroup[] => {
+  const byId = new Map<string, CapturedImage[]>(plants.map(p => [p.id, []]));
+  const unassigned: CapturedImage[] = [];
+
+  for (const img of images) {
+    const bucket = isUnassigned(img, plants) ? undefined : byId.get(img.plantId!);
+    (bucket || unassigned).push(img);
+  }
+
+  const newestFirst = (list: CapturedImage[]) => [...list].sort((a, b) => b.timestamp - a.timestamp);
+  const groups: PlantGroup[] = plants.map(plant => ({ plant, images: newestFirst(byId.get(plant.id)!) }));
+  if (unassigned.length > 0) groups.push({ plant: null, images: newestFirst(unassigned) });
+  return groups;
+};
+
+/**
+ * Snapshots of one plant, or every snapshot when no id is given. The
+ * unassigned filter matches the unassigned group of `groupImagesByPlant`, so
+ * it needs `plants` to recognize snapshots of deleted plants.
+ */
+export const filterImagesByPlant = (images: CapturedImage[], plantId?: string, plants: Plant[] = []) => {
+  if (!plantId) return images;
+  if (plantId === UNASSIGNED_PLANT_ID) return images.filter(img => isUnassigned(img, plants));
+  return images.filter(img => img.plantId === plantId);
+};
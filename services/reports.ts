@@ -0,0 +1,155 @@
+import { CapturedImage, GrowthReport, Plant } from '../types';
+import { generateGrowthReport } from './geminiService';
+import { filterImagesByPlant } from './plants';
+
+// --- Configuration Constants ---
+const MAX_REPORT_SNAPSHOTS = 60; // Longer ranges are thinned evenly to keep the prompt small
+const MAX_OBSERVATION_LENGTH = 300;
+
+// --- Helpers ---
+
+// Local time, matching the local-midnight range bounds the reports are built from
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const formatDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${formatDate(timestamp)} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * Snapshots of the plant (or all snapshots without a plant id) within the
+ * inclusive range, oldest first, evenly thinned to the prompt limit.
+ */
+export const selectReportSnapshots = (images: CapturedImage[], plantId: string | undefined, rangeStart: number, rangeEnd: number) => {
+  const inRange = filterImagesByPlant(images, plantId)
+    .filter(img => img.timestamp >= rangeStart && img.timestamp <= rangeEnd)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (inRange.length <= MAX_REPORT_SNAPSHOTS) return inRange;
+  const step = (inRange.length - 1) / (MAX_REPORT_SNAPSHOTS - 1);
+  return Array.from({ length: MAX_REPORT_SNAPSHOTS }, (_, i) => inRange[Math.round(i * step)]);
+};
+
+/**
+ * One prompt line per snapshot, matching the column order described in
+ * `growthReportPrompt`.
+ */
+export const toReportLogLine = (img: CapturedImage) => [
+  formatDateTime(img.timestamp),
+  img.healthStatus || '-',
+  img.growthStage || '-',
+  img.confidence !== undefined ? `${img.confidence}%` : '-',
+  img.growthMetrics ? `${(img.growthMetrics.canopyArea * 100).toFixed(1)}%` : '-',
+  img.growthMetrics ? `${(img.growthMetrics.greenness * 100).toFixed(1)}%` : '-',
+  img.eventTags?.length ? img.eventTags.join(', ') : '-',
+  (img.analysis || '-').replace(/\s+/g, ' ').slice(0, MAX_OBSERVATION_LENGTH)
+].join(' | ');
+
+/**
+ * Generates a report for a plant (or every snapshot) over a date range.
+ * Throws when the range holds no snapshots.
+ */
+export const createGrowthReport = async (
+  uid: string,
+  images: CapturedImage[],
+  plant: Plant | undefined,
+  rangeStart: number,
+  rangeEnd: number,
+  now: number = Date.now()
+): Promise<GrowthReport> => {
+  const snapshots = selectReportSnapshots(images, plant?.id, rangeStart, rangeEnd);
+  if (snapshots.length === 0) throw new Error("No snapshots in the selected range.");
+
+  const subject = plant ? `${plant.name}${plant.species ? ` (${plant.species})` : ''}` : undefined;
+  const sections = await generateGrowthReport(snapshots.map(toReportLogLine), subject);
+  return {
+    id: `report-${now}`,
+    uid,
+    ...(plant ? { plantId: plant.id, plantName: plant.name } : {}),
+    rangeStart,
+    rangeEnd,
+    snapshotCount: snapshots.length,
+    createdAt: now,
+    ...sections
+  };
+};
+
+export const reportTitle = (report: GrowthReport) =>
+  `${report.plantName || 'All Plants'} // ${formatDate(report.rangeStart)} to ${formatDate(report.rangeEnd)}`;
+
+// --- Export ---
+
+export const reportToMarkdown = (report: GrowthReport) => [
+  `# Growth Report: ${report.plantName || 'All Plants'}`,
+  '',
+  `*${formatDate(report.rangeStart)} to ${formatDate(report.rangeEnd)} · ${report.snapshotCount} snapshots · generated ${formatDateTime(report.createdAt)}*`,
+  '',
+  '## Summary',
+  '',
+  report.summary,
+  '',
+  '## Trend',
+  '',
+  report.trend || '_No trend reported._',
+  '',
+  '## Issues',
+  '',
+  ...(report.issues.length ? report.issues.map(i => `- ${i}`) : ['_None observed._']),
+  '',
+  '## Recommendations',
+  '',
+  ...(report.recommendations.length ? report.recommendations.map(r => `- ${r}`) : ['_None._']),
+  ''
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const reportToHtml = (report: GrowthReport) => {
+  const list = (items: string[], empty: string) =>
+    items.length ? `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : `<p><em>${empty}</em></p>`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(reportTitle(report))}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 680px; margin: 40px auto; color: #111; line-height: 1.5; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.08em; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 28px; }
+  .meta { color: #555; font-size: 12px; }
+</style></head><body>
+<h1>Growth Report: ${escapeHtml(report.plantName || 'All Plants')}</h1>
+<p class="meta">${formatDate(report.rangeStart)} to ${formatDate(report.rangeEnd)} · ${report.snapshotCount} snapshots · generated ${formatDateTime(report.createdAt)}</p>
+<h2>Summary</h2><p>${escapeHtml(report.summary)}</p>
+<h2>Trend</h2><p>${escapeHtml(report.trend || 'No trend reported.')}</p>
+<h2>Issues</h2>${list(report.issues, 'None observed.')}
+<h2>Recommendations</h2>${list(report.recommendations, 'None.')}
+</body></html>`;
+};
+
+const reportFileName = (report: GrowthReport, extension: string) =>
+  `gemma_report_${(report.plantName || 'all').replace(/[^a-z0-9]+/gi, '_').toLowerCase()}_${formatDate(report.rangeEnd)}.${extension}`;
+
+export const downloadReportMarkdown = (report: GrowthReport) => {
+  const url = URL.createObjectURL(new Blob([reportToMarkdown(report)], { type: 'text/markdown' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = reportFileName(report, 'md');
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens a print-formatted copy of the report; the browser's print dialog
+ * saves it as PDF. Returns false when the popup was blocked.
+ */
+export const printReportPdf = (report: GrowthReport) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(reportToHtml(report));
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,130 @@
+import { CaptureSchedule } from '../types';
+
+// --- Configuration Constants ---
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DEFAULT_TIME_OF_DAY = '12:00';
+const MERGE_WINDOW_MS = MINUTE_MS; // Fire times closer than this collapse into one capture
+const MAX_TIMER_DELAY_MS = 2147483647; // setTimeout overflows above 2^31-1 ms
+
+export const DEFAULT_SCHEDULE_ID = 'default-interval';
+
+export interface ScheduledFire {
+  time: number;
+  scheduleIds: string[];
+}
+
+// --- Helpers ---
+
+const parseTimeOfDay = (timeOfDay?: string) => {
+  const [h, m] = (timeOfDay || DEFAULT_TIME_OF_DAY).split(':').map(n => parseInt(n, 10));
+  return {
+    hours: Number.isFinite(h) ? Math.min(Math.max(h, 0), 23) : 12,
+    minutes: Number.isFinite(m) ? Math.min(Math.max(m, 0), 59) : 0
+  };
+};
+
+const atTimeOfDay = (day: Date, timeOfDay?: string) => {
+  const { hours, minutes } = parseTimeOfDay(timeOfDay);
+  const d = new Date(day);
+  d.setHours(hours, minutes, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Converts the legacy `intervalHours` setting into an interval schedule so the
+ * engine only ever deals with one representation.
+ */
+export const intervalHoursSchedule = (intervalHours: number): CaptureSchedule => ({
+  id: DEFAULT_SCHEDULE_ID,
+  type: 'interval',
+  intervalMinutes: Math.max(1, Math.round(intervalHours * 60)),
+  isActive: true
+});
+
+/**
+ * Returns the active schedules to evaluate. When the user has not defined any
+ * custom schedule, the global capture frequency acts as a single interval schedule.
+ * Custom schedules that are all paused or ended leave nothing to run.
+ */
+export const resolveSchedules = (schedules: CaptureSchedule[] | undefined, intervalHours: number, now: number = Date.now()) => {
+  if (!schedules || schedules.length === 0) return [intervalHoursSchedule(intervalHours)];
+  return schedules.filter(s => s.isActive && (s.endDate === undefined || s.endDate > now));
+};
+
+// --- Core ---
+
+/**
+ * Computes the first fire time of `schedule` strictly after `after`.
+ * Interval schedules are anchored at `anchor` (usually when monitoring started)
+ * so that repeated evaluation does not drift. Returns null once `endDate` is passed.
+ */
+export const getNextFireTime = (schedule: CaptureSchedule, after: number, anchor: number = after): number | null => {
+  if (!schedule.isActive) return null;
+
+  let next: number | null = null;
+
+  if (schedule.type === 'interval') {
+    const step = Math.max(1, schedule.intervalMinutes || DEFAULT_INTERVAL_MINUTES) * MINUTE_MS;
+    const elapsed = Math.max(0, after - anchor);
+    next = anchor + (Math.floor(elapsed / step) + 1) * step;
+  } else {
+    const days = schedule.type === 'weekly'
+      ? (schedule.daysOfWeek && schedule.daysOfWeek.length > 0 ? schedule.daysOfWeek : [new Date(after).getDay()])
+      : [0, 1, 2, 3, 4, 5, 6];
+    const start = new Date(after);
+    start.setHours(0, 0, 0, 0);
+    // A week plus one day always contains the next matching slot
+    for (let i = 0; i <= 7 && next === null; i++) {
+      const day = new Date(start.getTime() + i * DAY_MS + DAY_MS / 2); // midday avoids DST edge cases
+      if (!days.includes(day.getDay())) continue;
+      const candidate = atTimeOfDay(day, schedule.timeOfDay);
+      if (candidate > after) next = candidate;
+    }
+  }
+
+  if (next === null) return null;
+  if (schedule.endDate !== undefined && next > schedule.endDate) return null;
+  return next;
+};
+
+/**
+ * Previews the next `count` captures across all schedules. Fire times from
+ * different schedules that fall within the merge window are combined so
+ * overlapping schedules trigger a single capture.
+ */
+export const getUpcomingFireTimes = (
+  schedules: CaptureSchedule[],
+  from: number,
+  count: number,
+  anchor: number = from
+): ScheduledFire[] => {
+  const cursors = schedules.map(s => ({ schedule: s, next: getNextFireTime(s, from, anchor) }));
+  const fires: ScheduledFire[] = [];
+
+  while (fires.length < count) {
+    const pending = cursors.filter(c => c.next !== null) as { schedule: CaptureSchedule; next: number }[];
+    if (pending.length === 0) break;
+
+    const earliest = Math.min(...pending.map(c => c.next));
+    const due = pending.filter(c => c.next - earliest < MERGE_WINDOW_MS);
+    fires.push({ time: earliest, scheduleIds: due.map(c => c.schedule.id) });
+
+    for (const c of due) {
+      c.next = getNextFireTime(c.schedule, c.next, anchor);
+    }
+  }
+
+  return fires;
+};
+
+export const getNextFire = (schedules: CaptureSchedule[], from: number, anchor: number = from): ScheduledFire | null =>
+  getUpcomingFireTimes(schedules, from, 1, anchor)[0] || null;
+
+/**
+ * Delay to hand to setTimeout. Long waits are capped so the timer can be
+ * re-armed instead of overflowing and firing immediately.
+ */
+export const getTimerDelay = (fireTime: number, now: number = Date.now()) =>
+  Math.min(Math.max(0, fireTime - now), MAX_TIMER_DELAY_MS);
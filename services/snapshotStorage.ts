@@ -0,0 +1,87 @@
+import { ref, uploadString, getDownloadURL, getBlob, deleteObject } from 'firebase/storage';
+import { doc, setDoc, deleteField } from 'firebase/firestore';
+import { db, storage } from '../firebase';
+import { CapturedImage } from '../types';
+import { loadImage, resizeImage, fileToDataUrl } from './imageUtils';
+
+// --- Configuration Constants ---
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_QUALITY = 0.6;
+
+export type StoredImageFields = Pick<CapturedImage, 'storagePath' | 'downloadUrl' | 'thumbnailUrl' | 'width' | 'height' | 'byteSize'>;
+
+export const snapshotStoragePath = (uid: string, snapshotId: string) => `users/${uid}/snapshots/${snapshotId}.jpg`;
+
+const base64ByteSize = (dataUrl: string) => {
+  const base64 = dataUrl.split(',')[1] || '';
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+/**
+ * Uploads the full-resolution capture to the storage bucket and returns the
+ * lightweight fields that are persisted on the snapshot document instead of
+ * the pixels themselves.
+ */
+export const uploadSnapshotImage = async (uid: string, snapshotId: string, dataUrl: string): Promise<StoredImageFields> => {
+  const storagePath = snapshotStoragePath(uid, snapshotId);
+  const [img, thumbnailUrl] = await Promise.all([
+    loadImage(dataUrl),
+    resizeImage(dataUrl, THUMBNAIL_SIZE, THUMBNAIL_QUALITY)
+  ]);
+
+  const storageRef = ref(storage, storagePath);
+  await uploadString(storageRef, dataUrl, 'data_url', { contentType: 'image/jpeg' });
+  const downloadUrl = await getDownloadURL(storageRef);
+
+  return {
+    storagePath,
+    downloadUrl,
+    thumbnailUrl,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    byteSize: base64ByteSize(dataUrl)
+  };
+};
+
+export const deleteSnapshotImage = async (img: CapturedImage) => {
+  if (!img.storagePath) return;
+  try {
+    await deleteObject(ref(storage, img.storagePath));
+  } catch (e: any) {
+    // Already gone is fine, anything else is worth knowing about
+    if (e?.code !== 'storage/object-not-found') console.warn("Failed to delete snapshot image:", e);
+  }
+};
+
+/**
+ * Moves an inline `dataUrl` document into storage. Called lazily for legacy
+ * documents as they are read.
+ */
+export const migrateInlineSnapshot = async (uid: string, img: CapturedImage): Promise<StoredImageFields | null> => {
+  if (!img.dataUrl || img.storagePath) return null;
+  const fields = await uploadSnapshotImage(uid, img.id, img.dataUrl);
+  await setDoc(doc(db, 'users', uid, 'snapshots', img.id), {
+    ...fields,
+    dataUrl: deleteField()
+  }, { merge: true });
+  return fields;
+};
+
+// --- Display Helpers ---
+
+export const getSnapshotSrc = (img: CapturedImage) => img.downloadUrl || img.dataUrl || img.thumbnailUrl || '';
+
+export const getSnapshotThumbnail = (img: CapturedImage) => img.thumbnailUrl || getSnapshotSrc(img);
+
+/**
+ * Returns the full-resolution image as a base64 data URL, downloading it from
+ * storage when the snapshot no longer carries inline pixels. Needed wherever
+ * the image is sent to the model.
+ */
+export const loadSnapshotDataUrl = async (img: CapturedImage): Promise<string> => {
+  if (img.dataUrl) return img.dataUrl;
+  if (img.storagePath) return fileToDataUrl(await getBlob(ref(storage, img.storagePath)));
+  if (img.thumbnailUrl) return img.thumbnailUrl;
+  throw new Error("Snapshot has no image data.");
+};
@@ -0,0 +1,208 @@
+import { AlignmentTransform, CapturedImage, MonitorSettings } from '../types';
+import { loadImage } from './imageUtils';
+import { loadSnapshotDataUrl } from './snapshotStorage';
+import { getStabilizationZoom } from './alignment';
+
+// --- Configuration Constants ---
+const MAX_VIDEO_WIDTH = 1280;
+const VIDEO_BITRATE = 4_000_000;
+const MIME_CANDIDATES: Record<TimelapseFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4']
+};
+const HEALTH_BADGE_COLORS: Record<string, string> = {
+  HEALTHY: '#ddffaf',
+  STRESSED: '#eab308',
+  CRITICAL: '#ff716c'
+};
+
+export type TimelapseFormat = 'webm' | 'mp4';
+
+export interface TimelapseOptions {
+  fps: number;
+  format: TimelapseFormat;
+  holdFrames: number; // Frames each snapshot is shown on its own
+  crossfadeFrames: number; // Interpolated frames blending into the next snapshot (0 = hard cut)
+  showTimestamp: boolean;
+  timestampPrecision: MonitorSettings['timestampPrecision'];
+  showHealthBadge: boolean;
+  stabilize: boolean; // Apply stored alignment transforms
+}
+
+export interface FrameStep {
+  from: number;
+  to: number;
+  mix: number; // 0 shows `from` only, 1 shows `to` only
+}
+
+export interface TimelapseResult {
+  blob: Blob;
+  mimeType: string;
+  extension: string;
+}
+
+// --- Helpers ---
+
+export const formatTimestamp = (timestamp: number, precision: MonitorSettings['timestampPrecision']) => {
+  const d = new Date(timestamp);
+  const date = d.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+  const time = d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (precision === 'date') return date;
+  if (precision === 'time') return time;
+  return `${date} ${time}`;
+};
+
+/**
+ * Picks a recorder MIME type for the requested container, falling back to
+ * whatever the browser supports (most browsers only record WebM).
+ */
+export const pickRecorderMimeType = (format: TimelapseFormat) => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const preferred = [...MIME_CANDIDATES[format], ...MIME_CANDIDATES[format === 'mp4' ? 'webm' : 'mp4']];
+  return preferred.find(m => MediaRecorder.isTypeSupported(m)) || null;
+};
+
+/**
+ * Lays out every output frame: each snapshot is held for `holdFrames`, then
+ * crossfaded into the next over `crossfadeFrames`.
+ */
+export const buildFramePlan = (count: number, holdFrames: number, crossfadeFrames: number): FrameStep[] => {
+  const plan: FrameStep[] = [];
+  const hold = Math.max(1, Math.round(holdFrames));
+  const fade = Math.max(0, Math.round(crossfadeFrames));
+  for (let i = 0; i < count; i++) {
+    for (let h = 0; h < hold; h++) plan.push({ from: i, to: i, mix: 0 });
+    if (i < count - 1) {
+      for (let f = 1; f <= fade; f++) plan.push({ from: i, to: i + 1, mix: f / (fade + 1) });
+    }
+  }
+  return plan;
+};
+
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  w: number,
+  h: number,
+  alignment?: AlignmentTransform,
+  zoom: number = 1
+) => {
+  const scale = Math.max(w / img.naturalWidth, h / img.naturalHeight) * zoom;
+  const dw = img.naturalWidth * scale;
+  const dh = img.naturalHeight * scale;
+  // Offsets are fractions of the frame, so they scale with the drawn size
+  const ox = alignment ? -alignment.dx * dw : 0;
+  const oy = alignment ? -alignment.dy * dh : 0;
+  ctx.drawImage(img, (w - dw) / 2 + ox, (h - dh) / 2 + oy, dw, dh);
+};
+
+const drawOverlays = (ctx: CanvasRenderingContext2D, snapshot: CapturedImage, options: TimelapseOptions, w: number, h: number) => {
+  const fontSize = Math.max(14, Math.round(h / 28));
+  const pad = Math.round(fontSize * 0.8);
+  ctx.font = `bold ${fontSize}px monospace`;
+  ctx.textBaseline = 'middle';
+
+  if (options.showTimestamp) {
+    const label = formatTimestamp(snapshot.timestamp, options.timestampPrecision);
+    const tw = ctx.measureText(label).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(pad, h - pad - fontSize * 1.6, tw + fontSize, fontSize * 1.6);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, pad + fontSize / 2, h - pad - fontSize * 0.8);
+  }
+
+  if (options.showHealthBadge && snapshot.healthStatus) {
+    const label = snapshot.healthStatus;
+    const tw = ctx.measureText(label).width;
+    const bw = tw + fontSize * 2;
+    const x = w - pad - bw;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x, pad, bw, fontSize * 1.6);
+    ctx.fillStyle = HEALTH_BADGE_COLORS[label];
+    ctx.beginPath();
+    ctx.arc(x + fontSize * 0.7, pad + fontSize * 0.8, fontSize * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillText(label, x + fontSize * 1.4, pad + fontSize * 0.8);
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- Renderer ---
+
+/**
+ * Renders snapshots (oldest first) into a video using a canvas stream and
+ * MediaRecorder. Recording happens in real time, so the call takes roughly
+ * as long as the resulting video. Progress is reported from 0 to 1.
+ */
+export const renderTimelapse = async (
+  snapshots: CapturedImage[],
+  options: TimelapseOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<TimelapseResult> => {
+  if (snapshots.length === 0) throw new Error("No snapshots selected for export.");
+  const mimeType = pickRecorderMimeType(options.format);
+  if (!mimeType) throw new Error("Video recording is not supported on this device.");
+
+  const LOAD_SHARE = 0.2; // Portion of the progress bar spent fetching frames
+  const frames: HTMLImageElement[] = [];
+  for (let i = 0; i < snapshots.length; i++) {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+    frames.push(await loadImage(await loadSnapshotDataUrl(snapshots[i])));
+    onProgress?.(((i + 1) / snapshots.length) * LOAD_SHARE);
+  }
+
+  const first = frames[0];
+  const width = Math.min(MAX_VIDEO_WIDTH, first.naturalWidth) & ~1; // Encoders want even dimensions
+  const height = Math.round(width * first.naturalHeight / first.naturalWidth) & ~1;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+
+  const stream = canvas.captureStream(options.fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const zoom = options.stabilize ? getStabilizationZoom(snapshots) : 1;
+  const alignmentOf = (i: number) => (options.stabilize ? snapshots[i].alignment : undefined);
+  const plan = buildFramePlan(frames.length, options.holdFrames, options.crossfadeFrames);
+  const frameMs = 1000 / options.fps;
+  recorder.start();
+
+  try {
+    for (let k = 0; k < plan.length; k++) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+      const step = plan[k];
+      const started = performance.now();
+
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, width, height);
+      drawCover(ctx, frames[step.from], width, height, alignmentOf(step.from), zoom);
+      if (step.mix > 0) {
+        ctx.globalAlpha = step.mix;
+        drawCover(ctx, frames[step.to], width, height, alignmentOf(step.to), zoom);
+        ctx.globalAlpha = 1;
+      }
+      drawOverlays(ctx, snapshots[step.mix < 0.5 ? step.from : step.to], options, width, height);
+
+      onProgress?.(LOAD_SHARE + ((k + 1) / plan.length) * (1 - LOAD_SHARE));
+      await sleep(Math.max(0, frameMs - (performance.now() - started)));
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+    await stopped;
+  }
+
+  return {
+    blob: new Blob(chunks, { type: mimeType }),
+    mimeType,
+    extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm'
+  };
+};
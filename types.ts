@@ -1,15 +1,186 @@
+import type { AIProviderId, OpenAICompatibleConfig } from './services/aiProvider';
+
+export type HealthStatus = 'HEALTHY' | 'STRESSED' | 'CRITICAL';
+
+export interface BoundingBox {
+  // Normalized 0-1 image coordinates
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedIssue {
+  label: string;
+  severity?: 'low' | 'medium' | 'high';
+  box?: BoundingBox;
+}
+
+export type AnalysisSource = 'cloud' | 'local' | 'mock'; // Remote AI provider, the on-device classifier or the offline mock provider
+
+export interface PlantAnalysis {
+  summary: string;
+  healthStatus?: HealthStatus;
+  growthStage?: string;
+  tags: string[];
+  advice?: string;
+  confidence?: number; // 0-100
+  detectedIssues: DetectedIssue[];
+  source?: AnalysisSource;
+  reanalyzed?: boolean; // Came from the thorough second pass after a low-confidence result
+}
+
+export interface HumanLabel {
+  healthStatus?: HealthStatus;
+  growthStage?: string;
+  tags?: string[];
+  labeledAt: number;
+}
+
+export interface DiagnosisRegion {
+  label: string; // Condition seen in the region, e.g. "spider mite webbing"
+  category: 'disease' | 'pest' | 'nutrient' | 'environmental' | 'other';
+  severity: 'low' | 'medium' | 'high';
+  evidence: string; // Visual cues behind the finding
+  box?: BoundingBox;
+  point?: { x: number; y: number }; // Normalized 0-1, for findings too small for a box
+}
+
+export interface DiagnosisFindings {
+  summary: string;
+  primaryCause?: string; // Most likely cause overall; unset when the plant looks healthy
+  confidence?: number; // 0-100
+  regions: DiagnosisRegion[];
+  recommendations: string[];
+}
+
+export interface Diagnosis extends DiagnosisFindings {
+  provider: AIProviderId;
+  diagnosedAt: number;
+}
+
+export interface ReportSections {
+  summary: string;
+  trend: string; // How health, stage and canopy changed over the range
+  issues: string[];
+  recommendations: string[];
+}
+
+export interface DigestStats {
+  snapshotCount: number;
+  careCounts: Record<string, number>; // Care actions per type
+  healthTransitions: Array<{ from: HealthStatus; to: HealthStatus; timestamp: number }>;
+  healthyShare?: number; // 0-1 of snapshots with a health status
+  latestHealth?: HealthStatus;
+  canopyChange?: number; // Canopy fraction, last minus first measured snapshot
+  greennessChange?: number;
+}
+
+export interface GrowthReport extends ReportSections {
+  id: string;
+  uid: string;
+  kind?: 'report' | 'digest'; // Unset on on-demand reports
+  stats?: DigestStats; // Digests only
+  plantId?: string; // Unset for reports across all snapshots
+  plantName?: string;
+  rangeStart: number;
+  rangeEnd: number;
+  snapshotCount: number;
+  createdAt: number;
+}
+
+export type AnomalyKind = 'health_regression' | 'confidence_drop' | 'canopy_shrinkage' | 'color_shift';
+
+export interface AnomalyAlert {
+  id: string;
+  uid: string;
+  plantId?: string; // Unset for snapshots not assigned to a plant
+  kind: AnomalyKind;
+  severity: 'warning' | 'critical';
+  message: string;
+  beforeSnapshotId: string;
+  afterSnapshotId: string;
+  beforeValue?: number; // Compared value; health is ranked 0 (HEALTHY) to 2 (CRITICAL)
+  afterValue?: number;
+  detectedAt: number; // Timestamp of the later snapshot
+  createdAt: number;
+  acknowledged: boolean;
+  acknowledgedAt?: number;
+}
+
+export type LiveRecordingStorage = 'local' | 'cloud';
+
+export interface LiveRecording {
+  id: string;
+  uid: string;
+  plantId?: string;
+  startedAt: number;
+  durationMs: number;
+  storage: LiveRecordingStorage; // Local recordings stay in this browser's IndexedDB
+  storagePath?: string; // Archive JSON in the storage bucket, cloud recordings only
+  byteSize: number;
+  frameCount: number;
+  transcriptCount: number;
+  preview?: string; // Opening transcript lines for the list view
+  createdAt: number;
+}
+
+export interface AlignmentTransform {
+  referenceId: string; // First frame of the sequence the offsets are relative to
+  dx: number; // Translation as a fraction of frame width; shift by -dx to stabilize
+  dy: number; // Translation as a fraction of frame height
+  confidence: number; // 0-1 correlation strength of the weakest link in the chain
+  computedAt: number;
+}
+
+export interface GrowthMetrics {
+  canopyArea: number; // Foliage pixels as a fraction of the measured region, 0-1
+  canopyPixels: number; // Foliage area in full-resolution pixels
+  heightPx: number; // Vertical extent of the foliage in full-resolution pixels
+  greenness: number; // Mean green chromatic coordinate g/(r+g+b) over foliage, 0-1
+  hueHistogram: number[]; // Foliage share per 30° hue bin, sums to 1
+  roi?: BoundingBox; // Region measured, when restricted by the user
+  computedAt: number;
+}
+
 export interface CapturedImage {
   id: string;
   uid: string;
   timestamp: number;
-  dataUrl: string;
+  dataUrl?: string; // Legacy inline base64, migrated to storage on read
+  storagePath?: string; // Full-resolution image in the storage bucket
+  downloadUrl?: string;
+  thumbnailUrl?: string; // Small inline JPEG for list views
+  width?: number;
+  height?: number;
+  byteSize?: number;
   analysis?: string;
   confidence?: number;
   growthStage?: string;
   eventTags?: string[];
-  healthStatus?: 'HEALTHY' | 'STRESSED' | 'CRITICAL';
+  healthStatus?: HealthStatus;
   advice?: string;
+  detectedIssues?: DetectedIssue[];
+  analysisSource?: AnalysisSource;
+  reanalyzed?: boolean;
+  humanLabel?: HumanLabel; // Reviewer's label; the AI fields above are kept unchanged
+  diagnosis?: Diagnosis; // Latest disease/pest diagnosis with its evidence regions
   location?: { lat: number; lng: number; name?: string }; // Geotagging
+  plantId?: string;
+  alignment?: AlignmentTransform;
+  growthMetrics?: GrowthMetrics;
+}
+
+export interface Plant {
+  id: string;
+  uid: string;
+  name: string;
+  species?: string;
+  location?: string;
+  acquiredAt?: number; // timestamp
+  photoUrl?: string; // Small thumbnail data URL
+  roi?: BoundingBox; // Region used for growth metrics; whole frame when unset
+  createdAt: number;
 }
 
 export interface CaptureSchedule {
@@ -31,6 +202,16 @@ export interface CareReminder {
   isActive: boolean;
 }
 
+export interface CareAction {
+  id: string;
+  uid: string;
+  reminderId?: string;
+  type: CareReminder['type'];
+  title: string;
+  timestamp: number;
+  note?: string;
+}
+
 export interface UserProfile {
   uid: string;
   email: string;
@@ -55,6 +236,23 @@ export interface ChatMessage {
   isThinking?: boolean;
   groundingUrls?: Array<{ title?: string; uri: string }>;
   imageUrl?: string;
+  attachedSnapshotIds?: string[]; // Snapshots sent to the model with this message
+  attachedImageThumbnails?: string[]; // Small previews of uploaded files that are not snapshots
+  thoughts?: string; // Thinking summary streamed before the answer
+  interrupted?: boolean; // Generation was stopped or failed before completing
+}
+
+export interface Conversation {
+  id: string;
+  uid: string;
+  plantId?: string;
+  title: string;
+  titleGenerated: boolean; // False until the model has named the conversation
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  preview?: string; // Start of the latest message
+  keywords: string[]; // Lowercase words from the messages, used for search
 }
 
 export interface MonitorSettings {
@@ -65,11 +263,18 @@ export interface MonitorSettings {
   resolution: 'low' | 'med' | 'high';
   playbackFps: number;
   timestampPrecision: 'date' | 'time' | 'both';
-  minConfidenceThreshold: number;
+  minConfidenceThreshold: number; // Analyses below this need review and are left out of health stats
+  reanalyzeLowConfidence?: boolean; // Retry low-confidence analyses with the thinking model
   autoAdvance: boolean;
   plantType?: string;
   hasCompletedOnboarding?: boolean;
   cloudSyncProvider?: 'firebase' | 'gdrive' | 'dropbox' | 'none';
   captureSchedules?: CaptureSchedule[];
   careReminders?: CareReminder[];
+  activePlantId?: string;
+  weeklyDigest?: boolean; // Compile a digest per plant after each week; on unless false
+  localAnalysisFallback?: boolean; // Classify on-device when cloud analysis is unavailable
+  aiProvider?: AIProviderId; // Defaults to Gemini
+  openAICompatible?: OpenAICompatibleConfig; // Endpoint and model; the API key stays on the device
+  liveRecordingStorage?: LiveRecordingStorage; // Where recorded Live sessions are saved; local unless set
 }
\ No newline at end of file